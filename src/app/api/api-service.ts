@@ -1,59 +1,99 @@
 import type {
+  Backend,
   CarDataFromApi,
   CarInformation,
   Engine,
   GetCarsResponse,
   GetWinnersResponse,
+  RequestOptions,
+  RetryPolicy,
+  Schema,
   WinnerInformationFromApi,
   WinnerResponse,
 } from '../types/interfaces';
-
-export default class APIService {
+import {
+  APIError,
+  EngineBrokenError,
+  InvalidPayloadError,
+  NetworkError,
+  NotFoundError,
+  OrphanedWinnerError,
+  TooManyRequestsError,
+} from './errors';
+import { wait } from '../utils/utilities';
+import CarCache from './car-cache';
+import {
+  carListSchema,
+  carSchema,
+  driveResultSchema,
+  startedEngineSchema,
+  stoppedEngineSchema,
+  winnerListSchema,
+  winnerSchema,
+} from './schemas';
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 300,
+  maxDelay: 3000,
+  factor: 2,
+};
+
+export default class APIService implements Backend {
   private readonly baseURL: string;
   private readonly garageEndpoint: string;
   private readonly engineEndpoint: string;
   private readonly winnerEndpoint: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly carCache = new CarCache();
 
   /**
    * Creates an instance of APIService.
    *
    * @param {string} [baseURL='http://127.0.0.1:3000'] - The base URL of the server.
+   * @param {Partial<RetryPolicy>} [retryPolicy={}] - Overrides for the retry policy of idempotent requests.
    */
-  constructor(baseURL = 'http://127.0.0.1:3000') {
+  constructor(
+    baseURL = 'http://127.0.0.1:3000',
+    retryPolicy: Partial<RetryPolicy> = {}
+  ) {
     this.baseURL = baseURL;
     this.garageEndpoint = `${this.baseURL}/garage`;
     this.engineEndpoint = `${this.baseURL}/engine`;
     this.winnerEndpoint = `${this.baseURL}/winners`;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
   }
 
   /**
-   * Gets cars from the server.
+   * Gets cars from the server. Retried on network and server errors.
    *
    * @param {number} [page=1] - The page number to retrieve.
    * @param {number} [limit=7] - The maximum number of cars per page.
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<GetCarsResponse>} A promise that resolves with the list of cars and total count.
-   * @throws {Error} If the API request fails or the response format is invalid.
+   * @throws {APIError} If the API request fails.
+   * @throws {InvalidPayloadError} If the response format is invalid.
    */
-  public async getCars(page = 1, limit = 7): Promise<GetCarsResponse> {
-    const response = await fetch(
-      `${this.garageEndpoint}?_page=${page.toString()}&_limit=${limit.toString()}`
+  public async getCars(
+    page = 1,
+    limit = 7,
+    signal?: AbortSignal
+  ): Promise<GetCarsResponse> {
+    const response = await this.request(
+      `${this.garageEndpoint}?_page=${page.toString()}&_limit=${limit.toString()}`,
+      { signal },
+      { context: 'Failed to fetch cars', retry: true }
     );
 
-    if (!response.ok) {
-      throw new Error(
-        `API Error: ${response.status.toString()} ${response.statusText}`
-      );
-    }
-
-    const data: unknown = await response.json();
-
-    if (!this.isCarDataFromApiArray(data)) {
-      throw new Error('Invalid data format received from API.');
-    }
-
-    const items = data;
+    const items = await this.parse(
+      response,
+      carListSchema,
+      'Invalid data format received from API.'
+    );
     const totalCountHeader = response.headers.get('X-Total-Count');
 
+    this.carCache.set(items);
+
     return {
       items,
       totalCount: Number(totalCountHeader),
@@ -61,26 +101,94 @@ export default class APIService {
   }
 
   /**
-   * Fetches car data by ID
+   * Fetches car data by ID. Served from the car cache when possible.
+   * Retried on network and server errors.
    *
    * @param {number} id - Car ID
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<CarDataFromApi>} - Promise allowed by the car data object
+   * @throws {NotFoundError} If the car does not exist.
+   * @throws {InvalidPayloadError} If the response format is invalid.
    */
-  public async getCar(id: number): Promise<CarDataFromApi> {
+  public async getCar(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<CarDataFromApi> {
     const ID = String(id);
-    const response = await fetch(`${this.garageEndpoint}/${ID}`);
+    const cachedCar = this.carCache.get(id);
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch car ${ID}: ${response.statusText}`);
+    if (cachedCar) {
+      return cachedCar;
     }
 
-    const data: unknown = await response.json();
+    let response: Response;
+
+    try {
+      response = await this.request(
+        `${this.garageEndpoint}/${ID}`,
+        { signal },
+        { context: `Failed to fetch car ${ID}`, retry: true }
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        this.carCache.markMissing(id);
+      }
 
-    if (!this.isCarDataFromApi(data)) {
-      throw new Error(`Received invalid data format for car ${ID} from API.`);
+      throw error;
     }
 
-    return data;
+    const car = await this.parse(
+      response,
+      carSchema,
+      `Received invalid data format for car ${ID} from API.`
+    );
+
+    this.carCache.set([car]);
+
+    return car;
+  }
+
+  /**
+   * Fetches several cars at once. Cached cars are served from the car cache,
+   * the rest are requested in a single call using json-server's repeated `id=` filter.
+   * Retried on network and server errors.
+   *
+   * @param {number[]} ids - The IDs of the cars
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<CarDataFromApi[]>} A promise that resolves with the existing cars, in the order of `ids`.
+   * @throws {InvalidPayloadError} If the response format is invalid.
+   */
+  public async getCarsByIds(
+    ids: number[],
+    signal?: AbortSignal
+  ): Promise<CarDataFromApi[]> {
+    const uniqueIds = [...new Set(ids)];
+    const unknownIds = uniqueIds.filter((id) => !this.carCache.isKnown(id));
+
+    if (unknownIds.length > 0) {
+      const query = unknownIds.map((id) => `id=${String(id)}`).join('&');
+      const response = await this.request(
+        `${this.garageEndpoint}?${query}`,
+        { signal },
+        { context: 'Failed to fetch cars', retry: true }
+      );
+
+      const cars = await this.parse(
+        response,
+        carListSchema,
+        'Invalid data format received from API.'
+      );
+
+      this.carCache.set(cars);
+
+      for (const id of unknownIds) {
+        if (this.carCache.get(id) === undefined) {
+          this.carCache.markMissing(id);
+        }
+      }
+    }
+
+    return uniqueIds.flatMap((id) => this.carCache.get(id) ?? []);
   }
 
   /**
@@ -88,204 +196,202 @@ export default class APIService {
    *
    * @param {number} id - Car ID
    * @param {CarInformation} options - New car data
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<void>}
+   * @throws {NotFoundError} If the car does not exist.
    */
-  public async updateCar(id: number, options: CarInformation): Promise<void> {
+  public async updateCar(
+    id: number,
+    options: CarInformation,
+    signal?: AbortSignal
+  ): Promise<void> {
     const ID = String(id);
-    const response = await fetch(`${this.garageEndpoint}/${ID}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
+
+    await this.request(
+      `${this.garageEndpoint}/${ID}`,
+      {
+        method: 'PUT',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
       },
-      body: JSON.stringify(options),
-    });
+      { context: 'Failed to update car' }
+    );
 
-    if (!response.ok) {
-      throw new Error(`Failed to update car: ${response.statusText}`);
-    }
+    this.carCache.invalidate(id);
   }
 
   /**
    * Creates a new car by sending a POST request
    *
    * @param {CarInformation} car - Object with the information about the car
-   * @throws {Error} Throws an error if the HTTP request failed
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @throws {APIError} Throws an error if the HTTP request failed
    */
-  public async createCar(car: CarInformation): Promise<void> {
-    const response = await fetch(this.garageEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+  public async createCar(
+    car: CarInformation,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.request(
+      this.garageEndpoint,
+      {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(car),
       },
-      body: JSON.stringify(car),
-    });
+      { context: 'Failed to create car' }
+    );
 
-    if (!response.ok) {
-      throw new Error(`Failed to create car: ${response.statusText}`);
-    }
+    this.carCache.invalidateMissing();
   }
 
   /**
-   * Deletes car data from the server by its ID
+   * Deletes a car and then its winner record.
+   * A car or winner that is already gone counts as deleted,
+   * so the operation can be repeated safely.
    *
    * @param {number} id - The ID of the car to delete
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<void>} A promise that resolves on successful deletion.
-   * @throws {Error} If the deletion fails.
+   * @throws {APIError} If the car could not be deleted.
+   * @throws {OrphanedWinnerError} If the car was deleted, but its winner record was not.
    */
-  public async deleteCar(id: number): Promise<void> {
+  public async deleteCar(id: number, signal?: AbortSignal): Promise<void> {
     const ID = String(id);
 
-    const garageResponse = await fetch(`${this.garageEndpoint}/${ID}`, {
-      method: 'DELETE',
-    });
-
-    if (!garageResponse.ok) {
-      throw new Error(
-        `Failed to delete car ${ID}: ${garageResponse.statusText}`
+    try {
+      await this.request(
+        `${this.garageEndpoint}/${ID}`,
+        { method: 'DELETE', signal },
+        { context: `Failed to delete car ${ID}` }
       );
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
     }
 
-    const winnersResponse = await fetch(`${this.winnerEndpoint}/${ID}`, {
-      method: 'DELETE',
-    });
+    this.carCache.invalidate(id);
 
-    if (!winnersResponse.ok) {
-      throw new Error(
-        `Failed to delete car ${ID} from winners: ${garageResponse.statusText}`
-      );
+    try {
+      await this.deleteWinnerIfExists(id, signal);
+    } catch (error) {
+      throw new OrphanedWinnerError(id, { cause: error });
     }
   }
 
+  /**
+   * Drops a cached car that was changed elsewhere, e.g. in another tab,
+   * so the next request loads it from the server again.
+   *
+   * @param {number} id - The ID of the car
+   */
+  public invalidateCar(id: number): void {
+    this.carCache.invalidate(id);
+  }
+
   /**
    * Gets car engine data from the server by its ID
    *
    * @param {number} id - The ID of the car to race
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<Engine>} A promise that resolves on successful deletion.
-   * @throws {Error} If the gets data failed.
+   * @throws {NotFoundError} If the car does not exist.
+   * @throws {InvalidPayloadError} If the response format is invalid.
    */
-  public async startEngine(id: number): Promise<Engine> {
-    const ID = String(id);
-
-    const response = await fetch(
-      `${this.engineEndpoint}?id=${ID}&status=started`,
-      {
-        method: 'PATCH',
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to start engine of specified car ${ID}: ${response.statusText}`
-      );
-    }
-
-    const data: unknown = await response.json();
-
-    if (!this.isEngineDataFromApi(data)) {
-      throw new Error(
-        `Received invalid data format for engine ${ID} from API.`
-      );
-    }
-
-    return data;
+  public async startEngine(id: number, signal?: AbortSignal): Promise<Engine> {
+    return this.patchEngine(id, 'started', signal);
   }
 
   /**
    * Sets car engine data to the server by its ID
    *
    * @param {number} id - The ID of the car to stopped
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<Engine>} A promise that resolves on successful deletion.
-   * @throws {Error} If the gets data failed.
+   * @throws {NotFoundError} If the car does not exist.
+   * @throws {InvalidPayloadError} If the response format is invalid.
    */
-  public async stopEngine(id: number): Promise<Engine> {
-    const ID = String(id);
-
-    const response = await fetch(
-      `${this.engineEndpoint}?id=${ID}&status=stopped`,
-      {
-        method: 'PATCH',
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to start engine of specified car ${ID}: ${response.statusText}`
-      );
-    }
-
-    const data: unknown = await response.json();
-
-    if (!this.isEngineDataFromApi(data)) {
-      throw new Error(
-        `Received invalid data format for engine ${ID} from API.`
-      );
-    }
-
-    return data;
+  public async stopEngine(id: number, signal?: AbortSignal): Promise<Engine> {
+    return this.patchEngine(id, 'stopped', signal);
   }
 
   /**
-   * Sets car engine data to the server by its ID
+   * Switches the engine of a started car to drive mode.
+   * Resolves when the car reaches the finish.
    *
-   * @param {number} id - The ID of the car to stopped
-   * @return {Promise<unknown>} A promise that resolves on successful deletion or bad request.
-   * @throws {Error} If the gets data failed.
+   * @param {number} id - The ID of the car to drive
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<{ success: boolean }>} A promise that resolves when the car finishes.
+   * @throws {EngineBrokenError} If the engine broke down on the way (500).
+   * @throws {NotFoundError} If the engine was not started (404).
+   * @throws {TooManyRequestsError} If a drive for the car is already in progress (429).
    */
-  public async driveEngine(id: number): Promise<{ success: boolean }> {
+  public async driveEngine(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<{ success: boolean }> {
     const ID = String(id);
+    let response: Response;
 
-    const response = await fetch(
-      `${this.engineEndpoint}?id=${ID}&status=drive`,
-      {
-        method: 'PATCH',
+    try {
+      response = await this.request(
+        `${this.engineEndpoint}?id=${ID}&status=drive`,
+        { method: 'PATCH', signal },
+        { context: `Failed to drive car ${ID}` }
+      );
+    } catch (error) {
+      if (error instanceof APIError && error.status === 500) {
+        throw new EngineBrokenError(id, error.message);
       }
-    );
 
-    if (!response.ok) {
-      return { success: false };
+      throw error;
     }
 
-    const data: unknown = await response.json();
-
-    if (!this.isSuccessObject(data)) {
-      throw new Error(`Received invalid data format for ${ID} from API.`);
-    }
-    return data;
+    return this.parse(
+      response,
+      driveResultSchema,
+      `Received invalid data format for ${ID} from API.`
+    );
   }
 
   /**
-   * Gets winners from the server.
+   * Gets winners from the server. Retried on network and server errors.
    *
    * @param {number} [page=1] - The page number to retrieve.
    * @param {number} [limit=10] - The maximum number of winners per page.
+   * @param {'id' | 'wins' | 'time'} [sort='id'] - The field to sort by.
+   * @param {'ASC' | 'DESC'} [order='ASC'] - The sort direction.
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<GetWinnersResponse>} A promise that resolves with the list of winners and total count.
-   * @throws {Error} If the API request fails or the response format is invalid.
+   * @throws {APIError} If the API request fails.
+   * @throws {InvalidPayloadError} If the response format is invalid.
    */
   public async getWinners(
     page = 1,
     limit = 10,
     sort: 'id' | 'wins' | 'time' = 'id',
-    order: 'ASC' | 'DESC' = 'ASC'
+    order: 'ASC' | 'DESC' = 'ASC',
+    signal?: AbortSignal
   ): Promise<GetWinnersResponse> {
     const sortParameters = `&_sort=${sort}&_order=${order}`;
 
-    const response = await fetch(
-      `${this.winnerEndpoint}?_page=${page.toString()}&_limit=${limit.toString()}${sortParameters}`
+    const response = await this.request(
+      `${this.winnerEndpoint}?_page=${page.toString()}&_limit=${limit.toString()}${sortParameters}`,
+      { signal },
+      { context: 'Failed to fetch winners', retry: true }
     );
 
-    if (!response.ok) {
-      throw new Error(
-        `API Error: ${response.status.toString()} ${response.statusText}`
-      );
-    }
-
-    const data: unknown = await response.json();
-
-    if (!this.isWinnerDataFromApiArray(data)) {
-      throw new Error('Invalid data format received from API.');
-    }
-
-    const items = data;
+    const items = await this.parse(
+      response,
+      winnerListSchema,
+      'Invalid data format received from API.'
+    );
     const totalCountHeader = response.headers.get('X-Total-Count');
 
     return {
@@ -295,70 +401,116 @@ export default class APIService {
   }
 
   /**
-   * Fetches car data by ID
+   * Fetches winner data by car ID. Retried on network and server errors.
    *
    * @param {number} id - Car ID
-   * @return {Promise<WinnerInformationFromApi>} - Promise allowed by the car data object
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<WinnerInformationFromApi | undefined>} - The winner or undefined if the car never won.
+   * @throws {InvalidPayloadError} If the response format is invalid.
    */
-  // public async getWinner(id: number): Promise<unknown | null> {
   public async getWinner(
-    id: number
+    id: number,
+    signal?: AbortSignal
   ): Promise<WinnerInformationFromApi | undefined> {
     const ID = String(id);
-    const response = await fetch(`${this.winnerEndpoint}/${ID}`, {
-      method: 'GET',
-    });
+    let response: Response;
 
-    if (response.status === 404) {
-      return undefined;
+    try {
+      response = await this.request(
+        `${this.winnerEndpoint}/${ID}`,
+        { method: 'GET', signal },
+        { context: `Failed to fetch winner ${ID}`, retry: true }
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return undefined;
+      }
+
+      throw error;
     }
 
-    const data: unknown = await response.json();
+    return this.parse(
+      response,
+      winnerSchema,
+      `Received invalid data format for winner ${ID} from API.`
+    );
+  }
 
-    if (!this.isWinnerDataFromApi(data)) {
-      throw new Error(`Received invalid data format for car ${ID} from API.`);
+  /**
+   * Fetches the winner records of several cars in a single call using
+   * json-server's repeated `id=` filter. Retried on network and server errors.
+   *
+   * @param {number[]} ids - The IDs of the cars
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<WinnerInformationFromApi[]>} A promise that resolves with the records
+   * of the cars that have won; cars that never won are left out.
+   * @throws {InvalidPayloadError} If the response format is invalid.
+   */
+  public async getWinnersByIds(
+    ids: number[],
+    signal?: AbortSignal
+  ): Promise<WinnerInformationFromApi[]> {
+    const uniqueIds = [...new Set(ids)];
+
+    if (uniqueIds.length === 0) {
+      return [];
     }
 
-    return data;
+    const query = uniqueIds.map((id) => `id=${String(id)}`).join('&');
+    const response = await this.request(
+      `${this.winnerEndpoint}?${query}`,
+      { signal },
+      { context: 'Failed to fetch winners', retry: true }
+    );
+
+    return this.parse(
+      response,
+      winnerListSchema,
+      'Invalid data format received from API.'
+    );
   }
 
   /**
    * Creates a winner by sending a POST request
    *
    * @param {WinnerInformationFromApi} winner - Object with the information about the winner
-   * @throws {Error} Throws an error if the HTTP request failed
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @throws {APIError} Throws an error if the HTTP request failed
    */
-  public async createWinner(winner: WinnerInformationFromApi): Promise<void> {
-    const response = await fetch(this.winnerEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+  public async createWinner(
+    winner: WinnerInformationFromApi,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.request(
+      this.winnerEndpoint,
+      {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(winner),
       },
-      body: JSON.stringify(winner),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to create winner: ${response.statusText}`);
-    }
+      { context: 'Failed to create winner' }
+    );
   }
 
   /**
    * Deletes winner data from the server by its ID
    *
    * @param {number} id - The ID of the car to delete
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<void>} A promise that resolves on successful deletion.
-   * @throws {Error} If the deletion fails.
+   * @throws {NotFoundError} If the winner does not exist.
    */
-  public async deleteWinner(id: number): Promise<void> {
+  public async deleteWinner(id: number, signal?: AbortSignal): Promise<void> {
     const ID = String(id);
 
-    const response = await fetch(`${this.winnerEndpoint}/${ID}`, {
-      method: 'DELETE',
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to delete winner ${ID}: ${response.statusText}`);
-    }
+    await this.request(
+      `${this.winnerEndpoint}/${ID}`,
+      { method: 'DELETE', signal },
+      { context: `Failed to delete winner ${ID}` }
+    );
   }
 
   /**
@@ -366,121 +518,268 @@ export default class APIService {
    *
    * @param {number} id - Car ID
    * @param {WinnerInformationFromApi} options - New winner data
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
    * @return {Promise<void>}
+   * @throws {NotFoundError} If the winner does not exist.
    */
   public async updateWinner(
     id: number,
-    options: WinnerResponse
+    options: WinnerResponse,
+    signal?: AbortSignal
   ): Promise<void> {
     const ID = String(id);
-    const response = await fetch(`${this.winnerEndpoint}/${ID}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
+
+    await this.request(
+      `${this.winnerEndpoint}/${ID}`,
+      {
+        method: 'PUT',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
       },
-      body: JSON.stringify(options),
-    });
+      { context: 'Failed to update winner' }
+    );
+  }
+
+  /**
+   * Finds winner records whose car no longer exists.
+   *
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<number[]>} A promise that resolves with the IDs of the orphaned winners.
+   * @throws {InvalidPayloadError} If the response format is invalid.
+   */
+  public async findOrphanedWinners(signal?: AbortSignal): Promise<number[]> {
+    const response = await this.request(
+      this.winnerEndpoint,
+      { signal },
+      { context: 'Failed to fetch winners', retry: true }
+    );
+    const winners = await this.parse(
+      response,
+      winnerListSchema,
+      'Invalid data format received from API.'
+    );
+    const winnerIds = winners.map((winner) => winner.id);
+    const cars = await this.getCarsByIds(winnerIds, signal);
+    const carIds = new Set(cars.map((car) => car.id));
+
+    return winnerIds.filter((id) => !carIds.has(id));
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to update winner: ${response.statusText}`);
+  /**
+   * Deletes winner records whose car no longer exists.
+   * Compensates deletions that failed after the car was removed.
+   *
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<number[]>} A promise that resolves with the IDs of the removed winners.
+   */
+  public async removeOrphanedWinners(signal?: AbortSignal): Promise<number[]> {
+    const orphanIds = await this.findOrphanedWinners(signal);
+
+    for (const id of orphanIds) {
+      await this.deleteWinnerIfExists(id, signal);
     }
+
+    return orphanIds;
   }
 
   /**
-   * Checks if the data received is a valid array of CarDataFromApi objects.
-   * Acts as a Type Guard.
+   * Deletes a winner record, treating a missing record as deleted.
+   * Retried on network and server errors, as deleting is idempotent.
    *
    * @private
-   * @param {unknown} array - The data to check
-   * @return {array is CarDataFromApi[]} True if data is a valid CarDataFromApi array, false otherwise.
+   * @param {number} id - The ID of the car
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
    */
-  private isCarDataFromApiArray(array: unknown): array is CarDataFromApi[] {
-    return (
-      Array.isArray(array) &&
-      array.every((element: CarDataFromApi) => this.isCarDataFromApi(element))
-    );
+  private async deleteWinnerIfExists(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const ID = String(id);
+
+    try {
+      await this.request(
+        `${this.winnerEndpoint}/${ID}`,
+        { method: 'DELETE', signal },
+        { context: `Failed to delete car ${ID} from winners`, retry: true }
+      );
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
   }
 
   /**
-   * Checks if the data received is a valid array of WinnerInformationFromApi objects.
-   * Acts as a Type Guard.
+   * Sends a PATCH request to the engine endpoint and validates the answer.
    *
    * @private
-   * @param {unknown} array - The data to check
-   * @return {array is WinnerInformationFromApi[]} True if data is a valid WinnerInformationFromApi array, false otherwise.
+   * @param {number} id - The ID of the car
+   * @param {'started' | 'stopped'} status - The requested engine status
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<Engine>} A promise that resolves with the engine velocity and distance.
    */
-  private isWinnerDataFromApiArray(
-    array: unknown
-  ): array is WinnerInformationFromApi[] {
-    return (
-      Array.isArray(array) &&
-      array.every((element: CarDataFromApi) =>
-        this.isWinnerDataFromApi(element)
-      )
+  private async patchEngine(
+    id: number,
+    status: 'started' | 'stopped',
+    signal?: AbortSignal
+  ): Promise<Engine> {
+    const ID = String(id);
+    const action = status === 'started' ? 'start' : 'stop';
+
+    const response = await this.request(
+      `${this.engineEndpoint}?id=${ID}&status=${status}`,
+      { method: 'PATCH', signal },
+      { context: `Failed to ${action} engine of specified car ${ID}` }
+    );
+
+    return this.parse(
+      response,
+      status === 'started' ? startedEngineSchema : stoppedEngineSchema,
+      `Received invalid data format for engine ${ID} from API.`
     );
   }
 
   /**
-   * Checks if object from server response is CarDataFromApi object with valid data.
-   * Type guard helper method
+   * Sends a request and turns failures into typed errors.
+   * Idempotent requests are retried with exponential backoff
+   * on network errors, 429 and 5xx responses.
    *
    * @private
-   * @param {unknown} data - An object for checks
-   * @return {data is CarDataFromApi} True if object is CarDataFromApi object, false otherwise
+   * @param {string} url - The request URL
+   * @param {RequestInit} init - The fetch options
+   * @param {RequestOptions} options - The error message context and whether to retry
+   * @return {Promise<Response>} A promise that resolves with a successful response.
+   * @throws {APIError} If the request fails after all attempts.
    */
-  private isCarDataFromApi(data: unknown): data is CarDataFromApi {
-    if (typeof data !== 'object' || data === null) {
-      return false;
+  private async request(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<Response> {
+    const attempts = options.retry ? this.retryPolicy.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await this.send(url, init, options.context);
+      } catch (error) {
+        if (attempt >= attempts || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        await wait(this.getRetryDelay(attempt), init.signal ?? undefined);
+      }
     }
-
-    return 'id' in data && 'name' in data && 'color' in data;
   }
 
   /**
-   * Checks if object from server response is CarDataFromApi object with valid data.
-   * Type guard helper method
+   * Performs a single fetch and classifies the failure, if any.
    *
    * @private
-   * @param {unknown} data - An object for checks
-   * @return {data is WinnerInformationFromApi} True if object is CarDataFromApi object, false otherwise
+   * @param {string} url - The request URL
+   * @param {RequestInit} init - The fetch options
+   * @param {string} context - The prefix of error messages
+   * @return {Promise<Response>} A promise that resolves with a successful response.
+   * @throws {APIError} If the server cannot be reached or answers with an error status.
    */
-  private isWinnerDataFromApi(data: unknown): data is WinnerInformationFromApi {
-    if (typeof data !== 'object' || data === null) {
-      return false;
+  private async send(
+    url: string,
+    init: RequestInit,
+    context: string
+  ): Promise<Response> {
+    let response: Response;
+
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (init.signal?.aborted) {
+        throw error;
+      }
+
+      throw new NetworkError(`${context}: server is unreachable`, {
+        cause: error,
+      });
     }
 
-    return 'id' in data && 'wins' in data && 'time' in data;
+    if (response.ok) {
+      return response;
+    }
+
+    const message = `${context}: ${response.status.toString()} ${response.statusText}`;
+
+    switch (response.status) {
+      case 404: {
+        throw new NotFoundError(message);
+      }
+      case 429: {
+        throw new TooManyRequestsError(message);
+      }
+      default: {
+        throw new APIError(message, response.status);
+      }
+    }
   }
 
   /**
-   * Checks if object from server response is Engine object with valid data.
-   * Type guard helper method
+   * Checks whether a failed request may succeed when repeated.
    *
    * @private
-   * @param {unknown} data - An object for checks
-   * @return {data is Engine} True if object is Engine object, false otherwise
+   * @param {unknown} error - The error thrown by the request
+   * @return {boolean} True for network errors, 429 and 5xx responses.
    */
-  private isEngineDataFromApi(data: unknown): data is Engine {
-    if (typeof data !== 'object' || data === null) {
-      return false;
+  private isRetryable(error: unknown): boolean {
+    if (
+      error instanceof NetworkError ||
+      error instanceof TooManyRequestsError
+    ) {
+      return true;
     }
 
-    return 'velocity' in data && 'distance' in data;
+    return (
+      error instanceof APIError &&
+      error.status !== undefined &&
+      error.status >= 500
+    );
+  }
+
+  /**
+   * Calculates the exponential backoff delay before the next attempt.
+   *
+   * @private
+   * @param {number} attempt - The number of the failed attempt, starting from 1
+   * @return {number} The delay in milliseconds.
+   */
+  private getRetryDelay(attempt: number): number {
+    const { baseDelay, factor, maxDelay } = this.retryPolicy;
+
+    return Math.min(maxDelay, baseDelay * factor ** (attempt - 1));
   }
 
   /**
-   * Checks if object from server response is Engine object with valid data.
-   * Type guard helper method
+   * Reads the JSON body of a response and validates it against a schema.
    *
    * @private
-   * @param {unknown} data - An object for checks
-   * @return {data is { success: boolean }} True if object is Engine object, false otherwise
+   * @template T
+   * @param {Response} response - The successful response
+   * @param {Schema<T>} schema - The expected shape of the body
+   * @param {string} message - The error message prefix
+   * @return {Promise<T>} A promise that resolves with the validated body.
+   * @throws {InvalidPayloadError} With the path of the first invalid value.
    */
-  private isSuccessObject(data: unknown): data is { success: boolean } {
-    if (typeof data !== 'object' || data === null) {
-      return false;
+  private async parse<T>(
+    response: Response,
+    schema: Schema<T>,
+    message: string
+  ): Promise<T> {
+    const data: unknown = await response.json();
+
+    if (schema.is(data)) {
+      return data;
     }
 
-    return 'success' in data;
+    throw new InvalidPayloadError(message, data, schema.validate(data));
   }
 }
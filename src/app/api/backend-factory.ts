@@ -0,0 +1,39 @@
+import type { Backend, BackendType } from '../types/interfaces';
+import APIService from './api-service';
+import IndexedDBService from './indexed-db-service';
+import OfflineBackend from './offline-backend';
+
+const BACKEND_STORAGE_KEY = 'async-race-backend';
+const PENDING_CHANGES_STORAGE_KEY = 'async-race-pending-changes';
+
+/**
+ * Reads the backend selected in the settings. Defaults to the server.
+ *
+ * @return {BackendType} - The saved backend type
+ */
+export const getSavedBackendType = (): BackendType =>
+  localStorage.getItem(BACKEND_STORAGE_KEY) === 'local' ? 'local' : 'server';
+
+/**
+ * Saves the backend selected in the settings.
+ *
+ * @param {BackendType} type - The backend type to use from now on
+ */
+export const saveBackendType = (type: BackendType): void => {
+  localStorage.setItem(BACKEND_STORAGE_KEY, type);
+};
+
+/**
+ * Creates the backend implementation for the given type,
+ * wrapped to queue car changes while the backend is unreachable.
+ * Each backend type keeps its own queue of pending changes.
+ *
+ * @param {BackendType} type - `server` for the REST API, `local` for IndexedDB
+ * @return {OfflineBackend} - The backend instance
+ */
+export const createBackend = (type: BackendType): OfflineBackend => {
+  const backend: Backend =
+    type === 'local' ? new IndexedDBService() : new APIService();
+
+  return new OfflineBackend(backend, `${PENDING_CHANGES_STORAGE_KEY}-${type}`);
+};
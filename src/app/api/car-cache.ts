@@ -0,0 +1,84 @@
+import type { CarDataFromApi } from '../types/interfaces';
+
+/**
+ * In-memory cache of cars by ID, shared by every view that uses the same backend.
+ * Also remembers IDs the server reported as missing, so orphaned
+ * winner records are not looked up again on every render.
+ *
+ * @export
+ * @class CarCache
+ */
+export default class CarCache {
+  private cars = new Map<number, CarDataFromApi>();
+  private missingIds = new Set<number>();
+
+  /**
+   * Returns a cached car.
+   *
+   * @param {number} id - The ID of the car.
+   * @return {(CarDataFromApi | undefined)} The car or undefined if it is not cached.
+   */
+  public get(id: number): CarDataFromApi | undefined {
+    return this.cars.get(id);
+  }
+
+  /**
+   * Checks whether the cache already knows the answer for an ID:
+   * either the car itself or that it does not exist.
+   *
+   * @param {number} id - The ID of the car.
+   * @return {boolean} True if no request is needed for this ID.
+   */
+  public isKnown(id: number): boolean {
+    return this.cars.has(id) || this.missingIds.has(id);
+  }
+
+  /**
+   * Stores cars received from the server.
+   *
+   * @param {CarDataFromApi[]} cars - The cars to store.
+   */
+  public set(cars: CarDataFromApi[]): void {
+    for (const car of cars) {
+      this.cars.set(car.id, car);
+      this.missingIds.delete(car.id);
+    }
+  }
+
+  /**
+   * Remembers that a car does not exist on the server.
+   *
+   * @param {number} id - The ID of the missing car.
+   */
+  public markMissing(id: number): void {
+    this.cars.delete(id);
+    this.missingIds.add(id);
+  }
+
+  /**
+   * Drops everything known about a car, e.g. after it was updated or deleted.
+   *
+   * @param {number} id - The ID of the car.
+   */
+  public invalidate(id: number): void {
+    this.cars.delete(id);
+    this.missingIds.delete(id);
+  }
+
+  /**
+   * Forgets all IDs known to be missing, e.g. after a car was created.
+   *
+   */
+  public invalidateMissing(): void {
+    this.missingIds.clear();
+  }
+
+  /**
+   * Empties the cache.
+   *
+   */
+  public clear(): void {
+    this.cars.clear();
+    this.missingIds.clear();
+  }
+}
@@ -0,0 +1,124 @@
+import type {
+  Engine,
+  EngineDriveStatus,
+  EngineSimulatorOptions,
+} from '../types/interfaces';
+
+/**
+ * Simulates the async-race engine: random velocity on start,
+ * a timed drive and random breakdowns on the way.
+ *
+ * @export
+ * @class EngineSimulator
+ */
+export default class EngineSimulator {
+  private readonly DISTANCE = 500_000;
+  private readonly MIN_VELOCITY = 50;
+  private readonly MAX_VELOCITY = 200;
+  private readonly options: Required<EngineSimulatorOptions>;
+  private velocities = new Map<number, number>();
+  private drives = new Map<number, symbol>();
+
+  /**
+   * Creates an instance of EngineSimulator.
+   *
+   * @param {EngineSimulatorOptions} [options={}] - Breakdown chance, drive time scale and random source.
+   */
+  constructor(options: EngineSimulatorOptions = {}) {
+    this.options = {
+      breakdownChance: options.breakdownChance ?? 1 / 3,
+      timeScale: options.timeScale ?? 1,
+      random: options.random ?? Math.random,
+    };
+  }
+
+  /**
+   * Starts the engine of a car with a random velocity.
+   *
+   * @param {number} id - The ID of the car.
+   * @return {Engine} The engine velocity and the track distance.
+   */
+  public start(id: number): Engine {
+    const velocity = Math.max(
+      this.MIN_VELOCITY,
+      Math.floor(this.options.random() * this.MAX_VELOCITY)
+    );
+
+    this.velocities.set(id, velocity);
+
+    return { velocity, distance: this.DISTANCE };
+  }
+
+  /**
+   * Stops the engine of a car and cancels its drive state.
+   *
+   * @param {number} id - The ID of the car.
+   * @return {Engine} Zero velocity and the track distance.
+   */
+  public stop(id: number): Engine {
+    this.velocities.delete(id);
+    this.drives.delete(id);
+
+    return { velocity: 0, distance: this.DISTANCE };
+  }
+
+  /**
+   * Drives a started car: resolves after `distance / velocity` ms,
+   * or earlier when the engine breaks down. A drive whose engine was stopped
+   * in the meantime, and possibly started again, resolves as stopped
+   * and leaves the state of the new run alone.
+   *
+   * @param {number} id - The ID of the car.
+   * @return {Promise<EngineDriveStatus>} A promise that resolves with the outcome of the drive.
+   */
+  public async drive(id: number): Promise<EngineDriveStatus> {
+    const velocity = this.velocities.get(id);
+
+    if (velocity === undefined) {
+      return 'not-started';
+    }
+
+    if (this.drives.has(id)) {
+      return 'in-progress';
+    }
+
+    const drive = Symbol('drive');
+    this.drives.set(id, drive);
+
+    const duration = (this.DISTANCE / velocity) * this.options.timeScale;
+    const isBroken = this.options.random() < this.options.breakdownChance;
+
+    await this.wait(isBroken ? this.options.random() * duration : duration);
+
+    if (this.drives.get(id) !== drive) {
+      return 'stopped';
+    }
+
+    this.velocities.delete(id);
+    this.drives.delete(id);
+
+    return isBroken ? 'broken' : 'finished';
+  }
+
+  /**
+   * Clears the state of all engines.
+   *
+   */
+  public reset(): void {
+    this.velocities.clear();
+    this.drives.clear();
+  }
+
+  /**
+   * Resolves after the given number of milliseconds.
+   *
+   * @private
+   * @param {number} ms - The delay in milliseconds.
+   * @return {Promise<void>}
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      setTimeout(resolve, ms);
+    });
+  }
+}
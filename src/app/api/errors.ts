@@ -0,0 +1,167 @@
+import type { SchemaIssue } from '../types/interfaces';
+
+/**
+ * Base class for all errors raised by a backend.
+ *
+ * @export
+ * @class APIError
+ * @extends {Error}
+ */
+export class APIError extends Error {
+  public readonly status: number | undefined;
+
+  /**
+   * Creates an instance of APIError.
+   *
+   * @param {string} message - The error message.
+   * @param {number} [status] - The HTTP status code, if a response was received.
+   * @param {ErrorOptions} [options] - The underlying cause.
+   */
+  constructor(message: string, status?: number, options?: ErrorOptions) {
+    super(message, options);
+
+    this.name = 'APIError';
+    this.status = status;
+  }
+}
+
+/**
+ * The requested car, winner or engine does not exist (404).
+ *
+ * @export
+ * @class NotFoundError
+ * @extends {APIError}
+ */
+export class NotFoundError extends APIError {
+  /**
+   * Creates an instance of NotFoundError.
+   *
+   * @param {string} message - The error message.
+   */
+  constructor(message: string) {
+    super(message, 404);
+
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * A drive for the car is already in progress (429).
+ *
+ * @export
+ * @class TooManyRequestsError
+ * @extends {APIError}
+ */
+export class TooManyRequestsError extends APIError {
+  /**
+   * Creates an instance of TooManyRequestsError.
+   *
+   * @param {string} message - The error message.
+   */
+  constructor(message: string) {
+    super(message, 429);
+
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+/**
+ * The car's engine broke down during the drive (500 from `/engine?status=drive`).
+ *
+ * @export
+ * @class EngineBrokenError
+ * @extends {APIError}
+ */
+export class EngineBrokenError extends APIError {
+  public readonly carId: number;
+
+  /**
+   * Creates an instance of EngineBrokenError.
+   *
+   * @param {number} carId - The ID of the broken car.
+   * @param {string} message - The error message.
+   */
+  constructor(carId: number, message: string) {
+    super(message, 500);
+
+    this.name = 'EngineBrokenError';
+    this.carId = carId;
+  }
+}
+
+/**
+ * The server could not be reached.
+ *
+ * @export
+ * @class NetworkError
+ * @extends {APIError}
+ */
+export class NetworkError extends APIError {
+  /**
+   * Creates an instance of NetworkError.
+   *
+   * @param {string} message - The error message.
+   * @param {ErrorOptions} [options] - The underlying fetch error.
+   */
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, undefined, options);
+
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The response body does not have the expected shape.
+ *
+ * @export
+ * @class InvalidPayloadError
+ * @extends {APIError}
+ */
+export class InvalidPayloadError extends APIError {
+  public readonly payload: unknown;
+  public readonly path: string | undefined;
+
+  /**
+   * Creates an instance of InvalidPayloadError.
+   *
+   * @param {string} message - The error message.
+   * @param {unknown} payload - The received payload.
+   * @param {SchemaIssue} [issue] - The first value that failed validation.
+   */
+  constructor(message: string, payload: unknown, issue?: SchemaIssue) {
+    super(issue ? `${message} ${issue.path}: ${issue.message}` : message);
+
+    this.name = 'InvalidPayloadError';
+    this.payload = payload;
+    this.path = issue?.path;
+  }
+}
+
+/**
+ * The car was deleted, but its winner record could not be removed.
+ * The winner record is left orphaned until it is cleaned up.
+ *
+ * @export
+ * @class OrphanedWinnerError
+ * @extends {APIError}
+ */
+export class OrphanedWinnerError extends APIError {
+  public readonly carId: number;
+
+  /**
+   * Creates an instance of OrphanedWinnerError.
+   *
+   * @param {number} carId - The ID of the deleted car.
+   * @param {ErrorOptions} [options] - The error of the failed winner deletion.
+   */
+  constructor(carId: number, options?: ErrorOptions) {
+    super(
+      `Car ${String(carId)} was deleted, but its winner record was not`,
+      undefined,
+      options
+    );
+
+    this.name = 'OrphanedWinnerError';
+    this.carId = carId;
+  }
+}
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import type { FakeServerOptions } from '../../types/interfaces';
+import FakeServer from './fake-server';
+
+const BASE_URL = 'http://127.0.0.1:3000';
+
+/**
+ * Sends a request to a fake server.
+ *
+ * @param {FakeServer} server - The server under test
+ * @param {string} path - The path and query of the request
+ * @param {string} [method='GET'] - The HTTP method
+ * @return {Promise<Response>} - The server response
+ */
+const send = (
+  server: FakeServer,
+  path: string,
+  method = 'GET'
+): Promise<Response> =>
+  server.handle(new Request(`${BASE_URL}${path}`, { method }));
+
+/**
+ * Creates a fake server whose drives last a few milliseconds.
+ *
+ * @param {FakeServerOptions} [options={}] - Overrides of the engine simulation
+ * @return {FakeServer} - The server under test
+ */
+const createServer = (options: FakeServerOptions = {}): FakeServer =>
+  new FakeServer({ timeScale: 0.001, breakdownChance: 0, ...options });
+
+test('pages the garage and reports the total count', async () => {
+  const response = await send(createServer(), '/garage?_page=2&_limit=3');
+  const cars: unknown = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get('X-Total-Count'), '4');
+  assert.deepEqual(cars, [{ name: 'Ford', color: '#ef3c40', id: 4 }]);
+});
+
+test('filters records by repeated id parameters', async () => {
+  const server = createServer();
+  const cars: unknown = await (await send(server, '/garage?id=1&id=3')).json();
+  const winners: unknown = await (
+    await send(server, '/winners?id=1&id=2')
+  ).json();
+
+  assert.deepEqual(
+    Array.isArray(cars) ? cars.map((car: { id: number }) => car.id) : cars,
+    [1, 3]
+  );
+  assert.deepEqual(winners, [{ id: 1, wins: 1, time: 10 }]);
+});
+
+test('answers 404 for a missing car and a drive before the start', async () => {
+  const server = createServer();
+
+  assert.equal((await send(server, '/garage/99')).status, 404);
+  assert.equal(
+    (await send(server, '/engine?id=99&status=started', 'PATCH')).status,
+    404
+  );
+  assert.equal(
+    (await send(server, '/engine?id=1&status=drive', 'PATCH')).status,
+    404
+  );
+});
+
+test('answers 429 for a second drive of the same car', async () => {
+  const server = createServer();
+
+  await send(server, '/engine?id=1&status=started', 'PATCH');
+
+  const first = send(server, '/engine?id=1&status=drive', 'PATCH');
+  const second = await send(server, '/engine?id=1&status=drive', 'PATCH');
+
+  assert.equal(second.status, 429);
+  assert.equal((await first).status, 200);
+});
+
+test('answers 500 when the engine breaks down', async () => {
+  const server = createServer({ breakdownChance: 1 });
+
+  await send(server, '/engine?id=1&status=started', 'PATCH');
+
+  const response = await send(server, '/engine?id=1&status=drive', 'PATCH');
+
+  assert.equal(response.status, 500);
+});
+
+test('answers 404 for a drive whose engine was stopped', async () => {
+  const server = createServer();
+
+  await send(server, '/engine?id=1&status=started', 'PATCH');
+
+  const drive = send(server, '/engine?id=1&status=drive', 'PATCH');
+
+  await send(server, '/engine?id=1&status=stopped', 'PATCH');
+
+  assert.equal((await drive).status, 404);
+});
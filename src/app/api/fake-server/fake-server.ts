@@ -0,0 +1,540 @@
+import type {
+  CarDataFromApi,
+  FakeServerOptions,
+  FakeServerRoute,
+  WinnerInformationFromApi,
+} from '../../types/interfaces';
+import EngineSimulator from '../engine-simulator';
+
+interface Entity {
+  [key: string]: unknown;
+  id: number;
+}
+
+const DEFAULT_GARAGE: CarDataFromApi[] = [
+  { name: 'Tesla', color: '#e6e6fa', id: 1 },
+  { name: 'BMW', color: '#fede00', id: 2 },
+  { name: 'Mersedes', color: '#6c779f', id: 3 },
+  { name: 'Ford', color: '#ef3c40', id: 4 },
+];
+
+const DEFAULT_WINNERS: WinnerInformationFromApi[] = [
+  { id: 1, wins: 1, time: 10 },
+];
+
+/**
+ * In-memory stand-in for the async-race json-server.
+ * Implements `/garage`, `/winners` and `/engine` on top of the Fetch API
+ * `Request`/`Response` classes, so it can back both a fetch interceptor
+ * and a Node HTTP server.
+ *
+ * @export
+ * @class FakeServer
+ */
+export default class FakeServer {
+  private readonly DEFAULT_LIMIT = 10;
+  private readonly seed: Pick<FakeServerOptions, 'garage' | 'winners'>;
+  private readonly engine: EngineSimulator;
+  private collections = new Map<string, Entity[]>();
+
+  /**
+   * Creates an instance of FakeServer.
+   *
+   * @param {FakeServerOptions} [options={}] - Seed data and engine simulation settings.
+   */
+  constructor(options: FakeServerOptions = {}) {
+    this.engine = new EngineSimulator(options);
+    this.seed = { garage: options.garage, winners: options.winners };
+
+    this.reset();
+  }
+
+  /**
+   * Restores the seed data and clears all engine state.
+   *
+   */
+  public reset(): void {
+    const garage = this.seed.garage ?? DEFAULT_GARAGE;
+    const winners = this.seed.winners ?? DEFAULT_WINNERS;
+
+    this.collections.set(
+      'garage',
+      garage.map((car) => ({ ...car }))
+    );
+    this.collections.set(
+      'winners',
+      winners.map((winner) => ({ ...winner }))
+    );
+    this.engine.reset();
+  }
+
+  /**
+   * Handles a single request the way the async-race server would.
+   *
+   * @param {Request} request - The incoming request.
+   * @return {Promise<Response>} A promise that resolves with the server response.
+   */
+  public async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const route = this.parseRoute(url.pathname);
+
+    if (request.method === 'OPTIONS') {
+      return this.createResponse(undefined, 204);
+    }
+
+    if (route === undefined) {
+      return this.createResponse({}, 404);
+    }
+
+    if (route.resource === 'engine') {
+      return this.handleEngine(request.method, url.searchParams);
+    }
+
+    return this.handleCollection(request, route, url.searchParams);
+  }
+
+  /**
+   * Splits the path into a resource name and an optional record ID.
+   *
+   * @private
+   * @param {string} pathname - The URL path, e.g. `/garage/3`.
+   * @return {(FakeServerRoute | undefined)} The route or undefined for unknown paths.
+   */
+  private parseRoute(pathname: string): FakeServerRoute | undefined {
+    const [resource, id, ...rest] = pathname.split('/').filter(Boolean);
+    const isKnown = this.collections.has(resource) || resource === 'engine';
+
+    if (!isKnown || rest.length > 0) {
+      return undefined;
+    }
+
+    return { resource, id: id === undefined ? undefined : Number(id) };
+  }
+
+  /**
+   * Dispatches a REST request to `/garage` or `/winners`.
+   *
+   * @private
+   * @param {Request} request - The incoming request.
+   * @param {FakeServerRoute} route - The parsed route.
+   * @param {URLSearchParams} query - The query parameters.
+   * @return {Promise<Response>}
+   */
+  private async handleCollection(
+    request: Request,
+    route: FakeServerRoute,
+    query: URLSearchParams
+  ): Promise<Response> {
+    const { resource, id } = route;
+
+    if (id === undefined) {
+      if (request.method === 'GET') {
+        return this.listRecords(resource, query);
+      }
+
+      if (request.method === 'POST') {
+        return this.createRecord(resource, await this.readBody(request));
+      }
+    } else {
+      if (request.method === 'GET') {
+        return this.getRecord(resource, id);
+      }
+
+      if (request.method === 'PUT' || request.method === 'PATCH') {
+        const body = await this.readBody(request);
+
+        return this.updateRecord(resource, id, body, request.method);
+      }
+
+      if (request.method === 'DELETE') {
+        return this.deleteRecord(resource, id);
+      }
+    }
+
+    return this.createResponse({}, 404);
+  }
+
+  /**
+   * Returns a filtered, sorted and paginated list of records,
+   * following json-server's `_page`, `_limit`, `_sort` and `_order` parameters.
+   *
+   * @private
+   * @param {string} resource - The collection name.
+   * @param {URLSearchParams} query - The query parameters.
+   * @return {Response}
+   */
+  private listRecords(resource: string, query: URLSearchParams): Response {
+    let records = this.filterRecords(this.getCollection(resource), query);
+    const sort = query.get('_sort');
+
+    if (sort) {
+      const direction = query.get('_order')?.toLowerCase() === 'desc' ? -1 : 1;
+
+      records = [...records].sort(
+        (first, second) =>
+          this.compareValues(first[sort], second[sort]) * direction
+      );
+    }
+
+    const totalCount = records.length;
+    const page = Number(query.get('_page') ?? 0);
+    const limit = Number(query.get('_limit') ?? this.DEFAULT_LIMIT);
+
+    if (page > 0) {
+      records = records.slice((page - 1) * limit, page * limit);
+    }
+
+    return this.createResponse(records, 200, {
+      'X-Total-Count': String(totalCount),
+    });
+  }
+
+  /**
+   * Keeps records whose fields equal one of the requested values.
+   * Repeated parameters (`id=1&id=2`) are combined with OR.
+   *
+   * @private
+   * @param {Entity[]} records - The records to filter.
+   * @param {URLSearchParams} query - The query parameters.
+   * @return {Entity[]} The matching records.
+   */
+  private filterRecords(records: Entity[], query: URLSearchParams): Entity[] {
+    const fields = new Set(
+      [...query.keys()].filter((key) => !key.startsWith('_'))
+    );
+
+    return records.filter((record) =>
+      [...fields].every((field) =>
+        query.getAll(field).includes(String(record[field]))
+      )
+    );
+  }
+
+  /**
+   * Returns a single record.
+   *
+   * @private
+   * @param {string} resource - The collection name.
+   * @param {number} id - The record ID.
+   * @return {Response}
+   */
+  private getRecord(resource: string, id: number): Response {
+    const record = this.findRecord(resource, id);
+
+    return record
+      ? this.createResponse(record, 200)
+      : this.createResponse({}, 404);
+  }
+
+  /**
+   * Adds a record. Garage IDs are generated, winner IDs are taken from the body.
+   *
+   * @private
+   * @param {string} resource - The collection name.
+   * @param {(Record<string, unknown> | undefined)} body - The parsed request body.
+   * @return {Response}
+   */
+  private createRecord(
+    resource: string,
+    body: Record<string, unknown> | undefined
+  ): Response {
+    if (body === undefined) {
+      return this.createResponse({}, 400);
+    }
+
+    const collection = this.getCollection(resource);
+    const id =
+      typeof body.id === 'number' ? body.id : this.getNextId(collection);
+
+    if (collection.some((record) => record.id === id)) {
+      return this.createResponse(
+        { error: `Insert failed, duplicate id ${String(id)}` },
+        500
+      );
+    }
+
+    const record: Entity = { ...body, id };
+    collection.push(record);
+
+    return this.createResponse(record, 201);
+  }
+
+  /**
+   * Replaces (PUT) or merges (PATCH) a record, keeping its ID.
+   *
+   * @private
+   * @param {string} resource - The collection name.
+   * @param {number} id - The record ID.
+   * @param {(Record<string, unknown> | undefined)} body - The parsed request body.
+   * @param {string} method - The HTTP method.
+   * @return {Response}
+   */
+  private updateRecord(
+    resource: string,
+    id: number,
+    body: Record<string, unknown> | undefined,
+    method: string
+  ): Response {
+    const collection = this.getCollection(resource);
+    const index = collection.findIndex((record) => record.id === id);
+
+    if (index === -1) {
+      return this.createResponse({}, 404);
+    }
+
+    if (body === undefined) {
+      return this.createResponse({}, 400);
+    }
+
+    const base = method === 'PATCH' ? collection[index] : {};
+    const record: Entity = { ...base, ...body, id };
+    collection[index] = record;
+
+    return this.createResponse(record, 200);
+  }
+
+  /**
+   * Removes a record.
+   *
+   * @private
+   * @param {string} resource - The collection name.
+   * @param {number} id - The record ID.
+   * @return {Response}
+   */
+  private deleteRecord(resource: string, id: number): Response {
+    const collection = this.getCollection(resource);
+    const index = collection.findIndex((record) => record.id === id);
+
+    if (index === -1) {
+      return this.createResponse({}, 404);
+    }
+
+    collection.splice(index, 1);
+
+    if (resource === 'garage') {
+      this.engine.stop(id);
+    }
+
+    return this.createResponse({}, 200);
+  }
+
+  /**
+   * Handles `PATCH /engine?id=&status=` for the `started`, `stopped` and `drive` statuses.
+   *
+   * @private
+   * @param {string} method - The HTTP method.
+   * @param {URLSearchParams} query - The query parameters.
+   * @return {Promise<Response>}
+   */
+  private async handleEngine(
+    method: string,
+    query: URLSearchParams
+  ): Promise<Response> {
+    const id = Number(query.get('id'));
+    const status = query.get('status');
+
+    if (method !== 'PATCH') {
+      return this.createResponse({}, 404);
+    }
+
+    if (
+      !Number.isInteger(id) ||
+      id <= 0 ||
+      (status !== 'started' && status !== 'stopped' && status !== 'drive')
+    ) {
+      return this.createText(
+        'Wrong parameters: "id" should be any positive number, "status" should be "started", "stopped" or "drive"',
+        400
+      );
+    }
+
+    if (this.findRecord('garage', id) === undefined) {
+      return this.createText(
+        'Car with such id was not found in the garage.',
+        404
+      );
+    }
+
+    if (status === 'drive') {
+      return this.drive(id);
+    }
+
+    const engine =
+      status === 'started' ? this.engine.start(id) : this.engine.stop(id);
+
+    return this.createResponse(engine, 200);
+  }
+
+  /**
+   * Drives a started car and maps the outcome to the server's status codes.
+   *
+   * @private
+   * @param {number} id - The car ID.
+   * @return {Promise<Response>}
+   */
+  private async drive(id: number): Promise<Response> {
+    const status = await this.engine.drive(id);
+
+    switch (status) {
+      case 'not-started':
+      case 'stopped': {
+        return this.createText(
+          'Engine parameters for car with such id was not found in the garage. Have you tried to set engine status to "started" before?',
+          404
+        );
+      }
+      case 'in-progress': {
+        return this.createText(
+          "Drive already in progress. You can't run drive for the same car twice while it's not stopped.",
+          429
+        );
+      }
+      case 'broken': {
+        return this.createText(
+          "Car has been stopped suddenly. It's engine was broken down.",
+          500
+        );
+      }
+      default: {
+        return this.createResponse({ success: true }, 200);
+      }
+    }
+  }
+
+  /**
+   * Parses a JSON object body.
+   *
+   * @private
+   * @param {Request} request - The incoming request.
+   * @return {Promise<Record<string, unknown> | undefined>} The body or undefined if it is not a JSON object.
+   */
+  private async readBody(
+    request: Request
+  ): Promise<Record<string, unknown> | undefined> {
+    try {
+      const body: unknown = await request.json();
+
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return undefined;
+      }
+
+      return { ...body };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the records of a collection.
+   *
+   * @private
+   * @param {string} resource - The collection name.
+   * @return {Entity[]}
+   * @throws {Error} If the collection does not exist.
+   */
+  private getCollection(resource: string): Entity[] {
+    const collection = this.collections.get(resource);
+
+    if (collection === undefined) {
+      throw new Error(`Unknown collection: ${resource}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Finds a record by its ID.
+   *
+   * @private
+   * @param {string} resource - The collection name.
+   * @param {number} id - The record ID.
+   * @return {(Entity | undefined)}
+   */
+  private findRecord(resource: string, id: number): Entity | undefined {
+    return this.getCollection(resource).find((record) => record.id === id);
+  }
+
+  /**
+   * Returns the next free ID of a collection.
+   *
+   * @private
+   * @param {Entity[]} collection - The collection records.
+   * @return {number}
+   */
+  private getNextId(collection: Entity[]): number {
+    return collection.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+  }
+
+  /**
+   * Compares two field values for sorting.
+   *
+   * @private
+   * @param {unknown} first - The first value.
+   * @param {unknown} second - The second value.
+   * @return {number} A negative, zero or positive number.
+   */
+  private compareValues(first: unknown, second: unknown): number {
+    if (typeof first === 'number' && typeof second === 'number') {
+      return first - second;
+    }
+
+    return String(first).localeCompare(String(second));
+  }
+
+  /**
+   * Creates a JSON response with the CORS headers json-server sends.
+   *
+   * @private
+   * @param {unknown} body - The response payload.
+   * @param {number} status - The HTTP status code.
+   * @param {Record<string, string>} [headers={}] - Additional headers.
+   * @return {Response}
+   */
+  private createResponse(
+    body: unknown,
+    status: number,
+    headers: Record<string, string> = {}
+  ): Response {
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: {
+        ...this.getCorsHeaders(),
+        'Content-Type': 'application/json; charset=utf-8',
+        ...headers,
+      },
+    });
+  }
+
+  /**
+   * Creates a plain text response, as the engine endpoints return for errors.
+   *
+   * @private
+   * @param {string} text - The response text.
+   * @param {number} status - The HTTP status code.
+   * @return {Response}
+   */
+  private createText(text: string, status: number): Response {
+    return new Response(text, {
+      status,
+      headers: {
+        ...this.getCorsHeaders(),
+        'Content-Type': 'text/plain; charset=utf-8',
+      },
+    });
+  }
+
+  /**
+   * Returns the CORS headers sent with every response.
+   *
+   * @private
+   * @return {Record<string, string>}
+   */
+  private getCorsHeaders(): Record<string, string> {
+    return {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Expose-Headers': 'X-Total-Count',
+    };
+  }
+}
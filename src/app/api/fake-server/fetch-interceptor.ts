@@ -0,0 +1,35 @@
+import type FakeServer from './fake-server';
+import { withAbort } from '../../utils/utilities';
+
+/**
+ * Replaces the global `fetch` so that requests to `baseURL`
+ * are answered by the given fake server. Other requests are passed through.
+ * Aborting a request rejects it right away, like the real `fetch` does.
+ *
+ * @param {FakeServer} server - The fake server instance that handles intercepted requests
+ * @param {string} [baseURL='http://127.0.0.1:3000'] - The base URL to intercept
+ * @return {() => void} - A function that restores the original `fetch`
+ */
+export const installFetchInterceptor = (
+  server: FakeServer,
+  baseURL = 'http://127.0.0.1:3000'
+): (() => void) => {
+  const originalFetch = globalThis.fetch;
+
+  globalThis.fetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+
+    if (!request.url.startsWith(baseURL)) {
+      return originalFetch(input, init);
+    }
+
+    return withAbort(server.handle(request), request.signal);
+  };
+
+  return (): void => {
+    globalThis.fetch = originalFetch;
+  };
+};
@@ -0,0 +1,77 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+
+import type FakeServer from './fake-server';
+
+/**
+ * Converts a Node request into a Fetch API `Request`.
+ *
+ * @param {IncomingMessage} message - The incoming Node request
+ * @param {number} port - The port the server listens on
+ * @return {Promise<Request>} - A promise that resolves with the converted request
+ */
+const toRequest = async (
+  message: IncomingMessage,
+  port: number
+): Promise<Request> => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of message) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+  }
+
+  const headers = new Headers();
+
+  for (const [key, value] of Object.entries(message.headers)) {
+    if (typeof value === 'string') {
+      headers.set(key, value);
+    }
+  }
+
+  const method = message.method ?? 'GET';
+  const hasBody = chunks.length > 0 && method !== 'GET' && method !== 'HEAD';
+
+  return new Request(`http://127.0.0.1:${String(port)}${message.url ?? '/'}`, {
+    method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  });
+};
+
+/**
+ * Writes a Fetch API `Response` into a Node response.
+ *
+ * @param {Response} response - The fake server response
+ * @param {ServerResponse} target - The Node response to write to
+ * @return {Promise<void>}
+ */
+const writeResponse = async (
+  response: Response,
+  target: ServerResponse
+): Promise<void> => {
+  const body = await response.text();
+
+  target.writeHead(response.status, Object.fromEntries(response.headers));
+  target.end(body);
+};
+
+/**
+ * Serves the fake server over HTTP, as a drop-in replacement for the json-server.
+ *
+ * @param {FakeServer} server - The fake server instance that handles requests
+ * @param {number} [port=3000] - The port to listen on
+ * @return {Server} - The started Node HTTP server
+ */
+export const startNodeServer = (server: FakeServer, port = 3000): Server => {
+  const httpServer = createServer((message, target) => {
+    void toRequest(message, port)
+      .then((request) => server.handle(request))
+      .then((response) => writeResponse(response, target))
+      .catch(() => {
+        target.writeHead(500);
+        target.end();
+      });
+  });
+
+  return httpServer.listen(port, '127.0.0.1');
+};
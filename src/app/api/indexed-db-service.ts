@@ -0,0 +1,548 @@
+import type {
+  Backend,
+  CarDataFromApi,
+  CarInformation,
+  Engine,
+  GetCarsResponse,
+  GetWinnersResponse,
+  WinnerInformationFromApi,
+  WinnerResponse,
+} from '../types/interfaces';
+import EngineSimulator from './engine-simulator';
+import {
+  APIError,
+  EngineBrokenError,
+  NotFoundError,
+  TooManyRequestsError,
+} from './errors';
+import { withAbort } from '../utils/utilities';
+
+/**
+ * Backend that keeps cars and winners in the browser's IndexedDB
+ * and simulates engines locally, so the app runs without the server.
+ *
+ * @export
+ * @class IndexedDBService
+ * @implements {Backend}
+ */
+export default class IndexedDBService implements Backend {
+  private readonly DB_VERSION = 1;
+  private readonly GARAGE_STORE = 'garage';
+  private readonly WINNERS_STORE = 'winners';
+  private readonly databaseName: string;
+  private readonly engine: EngineSimulator;
+  private database: Promise<IDBDatabase> | undefined;
+
+  /**
+   * Creates an instance of IndexedDBService.
+   *
+   * @param {string} [databaseName='async-race'] - The name of the IndexedDB database.
+   * @param {EngineSimulator} [engine=new EngineSimulator()] - The engine simulator used for races.
+   */
+  constructor(databaseName = 'async-race', engine = new EngineSimulator()) {
+    this.databaseName = databaseName;
+    this.engine = engine;
+  }
+
+  /**
+   * Gets a page of cars from the database.
+   *
+   * @param {number} [page=1] - The page number to retrieve.
+   * @param {number} [limit=7] - The maximum number of cars per page.
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<GetCarsResponse>} A promise that resolves with the list of cars and total count.
+   */
+  public async getCars(
+    page = 1,
+    limit = 7,
+    signal?: AbortSignal
+  ): Promise<GetCarsResponse> {
+    const cars: CarDataFromApi[] = await this.run(
+      this.GARAGE_STORE,
+      'readonly',
+      (store) => store.getAll(),
+      signal
+    );
+
+    return {
+      items: this.paginate(cars, page, limit),
+      totalCount: cars.length,
+    };
+  }
+
+  /**
+   * Gets car data by ID
+   *
+   * @param {number} id - Car ID
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<CarDataFromApi>} - Promise allowed by the car data object
+   * @throws {NotFoundError} If the car does not exist.
+   */
+  public async getCar(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<CarDataFromApi> {
+    const car: CarDataFromApi | undefined = await this.run(
+      this.GARAGE_STORE,
+      'readonly',
+      (store) => store.get(id),
+      signal
+    );
+
+    if (car === undefined) {
+      throw new NotFoundError(`Failed to fetch car ${String(id)}: Not Found`);
+    }
+
+    return car;
+  }
+
+  /**
+   * Gets several cars at once
+   *
+   * @param {number[]} ids - The IDs of the cars
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<CarDataFromApi[]>} A promise that resolves with the existing cars, in the order of `ids`.
+   */
+  public async getCarsByIds(
+    ids: number[],
+    signal?: AbortSignal
+  ): Promise<CarDataFromApi[]> {
+    const cars: CarDataFromApi[] = await this.run(
+      this.GARAGE_STORE,
+      'readonly',
+      (store) => store.getAll(),
+      signal
+    );
+    const carsById = new Map(cars.map((car) => [car.id, car]));
+
+    return [...new Set(ids)].flatMap((id) => carsById.get(id) ?? []);
+  }
+
+  /**
+   * Does nothing: every read goes to the database,
+   * which all tabs share, so no car is cached.
+   *
+   */
+  public invalidateCar(): void {
+    return;
+  }
+
+  /**
+   * Updates car data by ID
+   *
+   * @param {number} id - Car ID
+   * @param {CarInformation} options - New car data
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   * @throws {NotFoundError} If the car does not exist.
+   */
+  public async updateCar(
+    id: number,
+    options: CarInformation,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.getCar(id, signal);
+    await this.run(
+      this.GARAGE_STORE,
+      'readwrite',
+      (store) => store.put({ ...options, id }),
+      signal
+    );
+  }
+
+  /**
+   * Creates a new car with an auto-incremented ID
+   *
+   * @param {CarInformation} car - Object with the information about the car
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   */
+  public async createCar(
+    car: CarInformation,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.run(
+      this.GARAGE_STORE,
+      'readwrite',
+      (store) => store.add({ name: car.name, color: car.color }),
+      signal
+    );
+  }
+
+  /**
+   * Deletes a car and its winner record in a single transaction,
+   * so a failure leaves both stores untouched.
+   * A car that never won has no winner record to delete.
+   * Deleting a missing car is not an error, like on the server,
+   * so a replayed deletion still removes a leftover winner record.
+   *
+   * @param {number} id - The ID of the car to delete
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>} A promise that resolves on successful deletion.
+   */
+  public async deleteCar(id: number, signal?: AbortSignal): Promise<void> {
+    const database = await this.openDatabase();
+    const transaction = database.transaction(
+      [this.GARAGE_STORE, this.WINNERS_STORE],
+      'readwrite'
+    );
+
+    transaction.objectStore(this.GARAGE_STORE).delete(id);
+    transaction.objectStore(this.WINNERS_STORE).delete(id);
+
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.addEventListener('complete', () => {
+        resolve();
+      });
+      transaction.addEventListener('error', () => {
+        reject(
+          new APIError(
+            `Failed to delete car ${String(id)}: ${String(transaction.error)}`
+          )
+        );
+      });
+    });
+
+    await withAbort(completed, signal);
+
+    this.engine.stop(id);
+  }
+
+  /**
+   * Starts the simulated engine of a car
+   *
+   * @param {number} id - The ID of the car to race
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<Engine>} A promise that resolves with the engine velocity and distance.
+   * @throws {NotFoundError} If the car does not exist.
+   */
+  public async startEngine(id: number, signal?: AbortSignal): Promise<Engine> {
+    await this.getCar(id, signal);
+
+    return this.engine.start(id);
+  }
+
+  /**
+   * Stops the simulated engine of a car
+   *
+   * @param {number} id - The ID of the car to stop
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<Engine>} A promise that resolves with zero velocity and the distance.
+   * @throws {NotFoundError} If the car does not exist.
+   */
+  public async stopEngine(id: number, signal?: AbortSignal): Promise<Engine> {
+    await this.getCar(id, signal);
+
+    return this.engine.stop(id);
+  }
+
+  /**
+   * Drives the simulated engine of a started car
+   *
+   * @param {number} id - The ID of the car to drive
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<{ success: boolean }>} A promise that resolves when the car finishes.
+   * @throws {EngineBrokenError} If the engine broke down on the way.
+   * @throws {NotFoundError} If the engine was not started or was stopped during the drive.
+   * @throws {TooManyRequestsError} If a drive for the car is already in progress.
+   */
+  public async driveEngine(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<{ success: boolean }> {
+    const ID = String(id);
+    const status = await withAbort(this.engine.drive(id), signal);
+
+    switch (status) {
+      case 'broken': {
+        throw new EngineBrokenError(id, `Engine of car ${ID} broke down`);
+      }
+      case 'not-started': {
+        throw new NotFoundError(`Engine of car ${ID} was not started`);
+      }
+      case 'stopped': {
+        throw new NotFoundError(`Engine of car ${ID} was stopped`);
+      }
+      case 'in-progress': {
+        throw new TooManyRequestsError(
+          `Drive of car ${ID} already in progress`
+        );
+      }
+      default: {
+        return { success: true };
+      }
+    }
+  }
+
+  /**
+   * Gets a sorted page of winners from the database.
+   *
+   * @param {number} [page=1] - The page number to retrieve.
+   * @param {number} [limit=10] - The maximum number of winners per page.
+   * @param {'id' | 'wins' | 'time'} [sort='id'] - The field to sort by.
+   * @param {'ASC' | 'DESC'} [order='ASC'] - The sort direction.
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<GetWinnersResponse>} A promise that resolves with the list of winners and total count.
+   */
+  public async getWinners(
+    page = 1,
+    limit = 10,
+    sort: 'id' | 'wins' | 'time' = 'id',
+    order: 'ASC' | 'DESC' = 'ASC',
+    signal?: AbortSignal
+  ): Promise<GetWinnersResponse> {
+    const winners: WinnerInformationFromApi[] = await this.run(
+      this.WINNERS_STORE,
+      'readonly',
+      (store) => store.getAll(),
+      signal
+    );
+    const direction = order === 'ASC' ? 1 : -1;
+
+    winners.sort((first, second) => (first[sort] - second[sort]) * direction);
+
+    return {
+      items: this.paginate(winners, page, limit),
+      totalCount: winners.length,
+    };
+  }
+
+  /**
+   * Gets winner data by car ID
+   *
+   * @param {number} id - Car ID
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<WinnerInformationFromApi | undefined>} - The winner or undefined if the car never won.
+   */
+  public async getWinner(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<WinnerInformationFromApi | undefined> {
+    return this.run(
+      this.WINNERS_STORE,
+      'readonly',
+      (store) => store.get(id),
+      signal
+    );
+  }
+
+  /**
+   * Gets the winner records of several cars at once
+   *
+   * @param {number[]} ids - The IDs of the cars
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<WinnerInformationFromApi[]>} - The records of the cars that have won.
+   */
+  public async getWinnersByIds(
+    ids: number[],
+    signal?: AbortSignal
+  ): Promise<WinnerInformationFromApi[]> {
+    const winners: WinnerInformationFromApi[] = await this.run(
+      this.WINNERS_STORE,
+      'readonly',
+      (store) => store.getAll(),
+      signal
+    );
+    const winnersById = new Map(winners.map((winner) => [winner.id, winner]));
+
+    return [...new Set(ids)].flatMap((id) => winnersById.get(id) ?? []);
+  }
+
+  /**
+   * Creates a winner record
+   *
+   * @param {WinnerInformationFromApi} winner - Object with the information about the winner
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   * @throws {APIError} If a winner with the same ID already exists.
+   */
+  public async createWinner(
+    winner: WinnerInformationFromApi,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.run(
+      this.WINNERS_STORE,
+      'readwrite',
+      (store) =>
+        store.add({ id: winner.id, wins: winner.wins, time: winner.time }),
+      signal
+    );
+  }
+
+  /**
+   * Deletes a winner record by car ID
+   *
+   * @param {number} id - The ID of the car to delete
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>} A promise that resolves on successful deletion.
+   * @throws {NotFoundError} If the winner does not exist.
+   */
+  public async deleteWinner(id: number, signal?: AbortSignal): Promise<void> {
+    if ((await this.getWinner(id, signal)) === undefined) {
+      throw new NotFoundError(
+        `Failed to delete winner ${String(id)}: Not Found`
+      );
+    }
+
+    await this.run(
+      this.WINNERS_STORE,
+      'readwrite',
+      (store) => store.delete(id),
+      signal
+    );
+  }
+
+  /**
+   * Updates winner data by car ID
+   *
+   * @param {number} id - Car ID
+   * @param {WinnerResponse} options - New winner data
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   * @throws {NotFoundError} If the winner does not exist.
+   */
+  public async updateWinner(
+    id: number,
+    options: WinnerResponse,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if ((await this.getWinner(id, signal)) === undefined) {
+      throw new NotFoundError(`Failed to update winner: Not Found`);
+    }
+
+    await this.run(
+      this.WINNERS_STORE,
+      'readwrite',
+      (store) => store.put({ id, wins: options.wins, time: options.time }),
+      signal
+    );
+  }
+
+  /**
+   * Finds winner records whose car no longer exists
+   *
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<number[]>} A promise that resolves with the IDs of the orphaned winners.
+   */
+  public async findOrphanedWinners(signal?: AbortSignal): Promise<number[]> {
+    const winnerIds: IDBValidKey[] = await this.run(
+      this.WINNERS_STORE,
+      'readonly',
+      (store) => store.getAllKeys(),
+      signal
+    );
+    const carIds: IDBValidKey[] = await this.run(
+      this.GARAGE_STORE,
+      'readonly',
+      (store) => store.getAllKeys(),
+      signal
+    );
+    const existingIds = new Set(carIds);
+
+    return winnerIds.flatMap((id) =>
+      typeof id === 'number' && !existingIds.has(id) ? [id] : []
+    );
+  }
+
+  /**
+   * Deletes winner records whose car no longer exists
+   *
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<number[]>} A promise that resolves with the IDs of the removed winners.
+   */
+  public async removeOrphanedWinners(signal?: AbortSignal): Promise<number[]> {
+    const orphanIds = await this.findOrphanedWinners(signal);
+
+    for (const id of orphanIds) {
+      await this.run(
+        this.WINNERS_STORE,
+        'readwrite',
+        (store) => store.delete(id),
+        signal
+      );
+    }
+
+    return orphanIds;
+  }
+
+  /**
+   * Returns one page of the given items.
+   *
+   * @private
+   * @template T
+   * @param {T[]} items - All items.
+   * @param {number} page - The page number, starting from 1.
+   * @param {number} limit - The page size.
+   * @return {T[]} The items of the page.
+   */
+  private paginate<T>(items: T[], page: number, limit: number): T[] {
+    return items.slice((page - 1) * limit, page * limit);
+  }
+
+  /**
+   * Runs a single request against an object store inside its own transaction.
+   *
+   * @private
+   * @template T
+   * @param {string} storeName - The object store name.
+   * @param {IDBTransactionMode} mode - The transaction mode.
+   * @param {(store: IDBObjectStore) => IDBRequest<T>} operation - Creates the request.
+   * @param {AbortSignal} [signal] - Aborts waiting for the request when signalled.
+   * @return {Promise<T>} A promise that resolves with the request result.
+   */
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    signal?.throwIfAborted();
+
+    const database = await this.openDatabase();
+    const store = database.transaction(storeName, mode).objectStore(storeName);
+    const request = operation(store);
+
+    const result = new Promise<T>((resolve, reject) => {
+      request.addEventListener('success', () => {
+        resolve(request.result);
+      });
+      request.addEventListener('error', () => {
+        reject(
+          new APIError(`IndexedDB request failed: ${String(request.error)}`)
+        );
+      });
+    });
+
+    return withAbort(result, signal);
+  }
+
+  /**
+   * Opens the database once, creating the object stores on first use.
+   *
+   * @private
+   * @return {Promise<IDBDatabase>}
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, this.DB_VERSION);
+
+      request.addEventListener('upgradeneeded', () => {
+        request.result.createObjectStore(this.GARAGE_STORE, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        request.result.createObjectStore(this.WINNERS_STORE, {
+          keyPath: 'id',
+        });
+      });
+      request.addEventListener('success', () => {
+        resolve(request.result);
+      });
+      request.addEventListener('error', () => {
+        reject(new APIError(`Failed to open database ${this.databaseName}`));
+      });
+    });
+
+    return this.database;
+  }
+}
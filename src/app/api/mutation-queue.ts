@@ -0,0 +1,161 @@
+import type { CarInformation, PendingMutation } from '../types/interfaces';
+import { pendingMutationSchema } from './schemas';
+
+/**
+ * Ordered list of car mutations waiting to be sent to the backend,
+ * persisted in localStorage so they survive reloads.
+ *
+ * Cars created while offline get temporary negative IDs. Later updates
+ * and deletes of such cars are merged into the pending create,
+ * so the server never sees a temporary ID.
+ *
+ * @export
+ * @class MutationQueue
+ */
+export default class MutationQueue {
+  private readonly storageKey: string;
+  private mutations: PendingMutation[];
+
+  /**
+   * Creates an instance of MutationQueue and restores saved mutations.
+   *
+   * @param {string} storageKey - The localStorage key of the queue.
+   */
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+    this.mutations = this.load();
+  }
+
+  /**
+   * The number of pending mutations.
+   *
+   * @readonly
+   * @type {number}
+   */
+  public get size(): number {
+    return this.mutations.length;
+  }
+
+  /**
+   * Returns all pending mutations in replay order.
+   *
+   * @return {PendingMutation[]} A copy of the queue.
+   */
+  public list(): PendingMutation[] {
+    return [...this.mutations];
+  }
+
+  /**
+   * Returns the oldest pending mutation without removing it.
+   *
+   * @return {(PendingMutation | undefined)} The next mutation to replay.
+   */
+  public peek(): PendingMutation | undefined {
+    return this.mutations[0];
+  }
+
+  /**
+   * Removes the oldest pending mutation after it was replayed.
+   */
+  public shift(): void {
+    this.mutations.shift();
+    this.save();
+  }
+
+  /**
+   * Queues a new car under a temporary ID.
+   *
+   * @param {CarInformation} car - The car to create.
+   * @return {number} The temporary (negative) ID of the car.
+   */
+  public enqueueCreate(car: CarInformation): number {
+    const lowestId = Math.min(0, ...this.mutations.map(({ id }) => id));
+    const id = lowestId - 1;
+
+    this.mutations.push({ type: 'create', id, car });
+    this.save();
+
+    return id;
+  }
+
+  /**
+   * Queues an update. Updates of queued cars change the pending create instead.
+   *
+   * @param {number} id - The ID of the car.
+   * @param {CarInformation} car - The new car data.
+   */
+  public enqueueUpdate(id: number, car: CarInformation): void {
+    const pendingCreate = this.findCreate(id);
+
+    if (pendingCreate) {
+      pendingCreate.car = car;
+    } else {
+      this.mutations.push({ type: 'update', id, car });
+    }
+
+    this.save();
+  }
+
+  /**
+   * Queues a delete. Deleting a queued car drops its pending create instead.
+   *
+   * @param {number} id - The ID of the car.
+   */
+  public enqueueDelete(id: number): void {
+    if (this.findCreate(id)) {
+      this.mutations = this.mutations.filter((mutation) => mutation.id !== id);
+    } else {
+      this.mutations.push({ type: 'delete', id });
+    }
+
+    this.save();
+  }
+
+  /**
+   * Finds the pending create of a car with a temporary ID.
+   *
+   * @private
+   * @param {number} id - The ID of the car.
+   * @return {(PendingMutation | undefined)} The create mutation, if the car is not created yet.
+   */
+  private findCreate(
+    id: number
+  ): Extract<PendingMutation, { type: 'create' }> | undefined {
+    for (const mutation of this.mutations) {
+      if (mutation.type === 'create' && mutation.id === id) {
+        return mutation;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Writes the queue to localStorage.
+   *
+   * @private
+   */
+  private save(): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.mutations));
+  }
+
+  /**
+   * Reads the queue from localStorage, dropping entries that do not match the mutation schema.
+   *
+   * @private
+   * @return {PendingMutation[]} The saved mutations.
+   */
+  private load(): PendingMutation[] {
+    try {
+      const data: unknown = JSON.parse(
+        localStorage.getItem(this.storageKey) ?? '[]'
+      );
+
+      return Array.isArray(data)
+        ? data.filter((item) => pendingMutationSchema.is(item))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,611 @@
+import type {
+  Backend,
+  CarDataFromApi,
+  CarInformation,
+  Engine,
+  GetCarsResponse,
+  GetWinnersResponse,
+  MutationConflict,
+  PendingChangesState,
+  PendingMutation,
+  WinnerInformationFromApi,
+  WinnerResponse,
+} from '../types/interfaces';
+import {
+  APIError,
+  NetworkError,
+  NotFoundError,
+  OrphanedWinnerError,
+} from './errors';
+import MutationQueue from './mutation-queue';
+
+type PendingChangesListener = (state: PendingChangesState) => void;
+
+/**
+ * Backend decorator that keeps car mutations working while the server is unreachable.
+ *
+ * Creates, updates and deletes that fail with a network error are queued
+ * in a {@link MutationQueue} and applied optimistically to the cars it returns.
+ * The queue is replayed in order once the server answers again.
+ * Changes to cars that were deleted on the server meanwhile are dropped
+ * and reported as conflicts.
+ *
+ * @export
+ * @class OfflineBackend
+ * @implements {Backend}
+ */
+export default class OfflineBackend implements Backend {
+  private readonly SYNC_INTERVAL = 5000;
+  private readonly backend: Backend;
+  private readonly queue: MutationQueue;
+  private readonly pageCache = new Map<string, GetCarsResponse>();
+  private listeners: PendingChangesListener[] = [];
+  private conflicts: MutationConflict[] = [];
+  private syncing: Promise<void> | undefined;
+  private syncTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Creates an instance of OfflineBackend and replays changes left from the previous session.
+   *
+   * @param {Backend} backend - The backend to send requests to.
+   * @param {string} storageKey - The localStorage key of the pending changes.
+   */
+  constructor(backend: Backend, storageKey: string) {
+    this.backend = backend;
+    this.queue = new MutationQueue(storageKey);
+
+    window.addEventListener('online', () => {
+      void this.sync();
+    });
+
+    if (this.queue.size > 0) {
+      void this.sync();
+    }
+  }
+
+  /**
+   * Registers a listener for changes of the pending changes state.
+   * The listener is called immediately with the current state.
+   *
+   * @param {PendingChangesListener} listener - Receives the new state.
+   */
+  public subscribe(listener: PendingChangesListener): void {
+    this.listeners.push(listener);
+    listener(this.getState());
+  }
+
+  /**
+   * Replays pending changes in order. Concurrent calls share one replay.
+   *
+   * @return {Promise<void>} A promise that resolves when the replay stops.
+   */
+  public sync(): Promise<void> {
+    if (this.syncing === undefined) {
+      this.syncing = this.replay().finally(() => {
+        this.syncing = undefined;
+        this.notify();
+      });
+      this.notify();
+    }
+
+    return this.syncing;
+  }
+
+  /**
+   * Forgets the reported conflicts.
+   */
+  public dismissConflicts(): void {
+    this.conflicts = [];
+    this.notify();
+  }
+
+  /**
+   * Gets a page of cars with pending changes applied.
+   * While offline, the last known version of the page is used.
+   *
+   * @param {number} [page=1] - The page number to retrieve.
+   * @param {number} [limit=7] - The maximum number of cars per page.
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<GetCarsResponse>} A promise that resolves with the list of cars and total count.
+   */
+  public async getCars(
+    page = 1,
+    limit = 7,
+    signal?: AbortSignal
+  ): Promise<GetCarsResponse> {
+    const key = `${String(page)}:${String(limit)}`;
+    let response: GetCarsResponse;
+
+    try {
+      response = await this.backend.getCars(page, limit, signal);
+      this.pageCache.set(key, response);
+    } catch (error) {
+      if (!(error instanceof NetworkError)) {
+        throw error;
+      }
+
+      response = this.pageCache.get(key) ?? { items: [], totalCount: 0 };
+    }
+
+    return this.applyPending(response, page, limit);
+  }
+
+  /**
+   * Gets car data by ID, including cars that are not created on the server yet.
+   *
+   * @param {number} id - Car ID
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<CarDataFromApi>} - Promise allowed by the car data object
+   */
+  public async getCar(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<CarDataFromApi> {
+    const pendingCar = this.findPendingCar(id);
+
+    if (pendingCar) {
+      return pendingCar;
+    }
+
+    return this.backend.getCar(id, signal);
+  }
+
+  /**
+   * Gets several cars at once.
+   *
+   * @param {number[]} ids - The IDs of the cars
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<CarDataFromApi[]>} A promise that resolves with the existing cars, in the order of `ids`.
+   */
+  public async getCarsByIds(
+    ids: number[],
+    signal?: AbortSignal
+  ): Promise<CarDataFromApi[]> {
+    return this.backend.getCarsByIds(ids, signal);
+  }
+
+  /**
+   * Drops a car that was changed elsewhere from the cache of the backend.
+   *
+   * @param {number} id - The ID of the car
+   */
+  public invalidateCar(id: number): void {
+    this.backend.invalidateCar(id);
+  }
+
+  /**
+   * Updates a car, or queues the update while offline.
+   *
+   * @param {number} id - Car ID
+   * @param {CarInformation} options - New car data
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   */
+  public async updateCar(
+    id: number,
+    options: CarInformation,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.sendOrQueue(
+      () => this.backend.updateCar(id, options, signal),
+      () => {
+        this.queue.enqueueUpdate(id, options);
+      },
+      id
+    );
+  }
+
+  /**
+   * Creates a car, or queues it under a temporary ID while offline.
+   *
+   * @param {CarInformation} car - Object with the information about the car
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   */
+  public async createCar(
+    car: CarInformation,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.sendOrQueue(
+      () => this.backend.createCar(car, signal),
+      () => {
+        this.queue.enqueueCreate(car);
+      }
+    );
+  }
+
+  /**
+   * Deletes a car, or queues the deletion while offline.
+   *
+   * @param {number} id - The ID of the car to delete
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   */
+  public async deleteCar(id: number, signal?: AbortSignal): Promise<void> {
+    await this.sendOrQueue(
+      () => this.backend.deleteCar(id, signal),
+      () => {
+        this.queue.enqueueDelete(id);
+      },
+      id
+    );
+  }
+
+  /**
+   * Starts the engine of a car.
+   *
+   * @param {number} id - The ID of the car to race
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<Engine>} A promise that resolves with the engine velocity and distance.
+   */
+  public async startEngine(id: number, signal?: AbortSignal): Promise<Engine> {
+    return this.backend.startEngine(id, signal);
+  }
+
+  /**
+   * Stops the engine of a car.
+   *
+   * @param {number} id - The ID of the car to stop
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<Engine>} A promise that resolves with the engine velocity and distance.
+   */
+  public async stopEngine(id: number, signal?: AbortSignal): Promise<Engine> {
+    return this.backend.stopEngine(id, signal);
+  }
+
+  /**
+   * Switches the engine of a started car to drive mode.
+   *
+   * @param {number} id - The ID of the car to drive
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<{ success: boolean }>} A promise that resolves when the car finishes.
+   */
+  public async driveEngine(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<{ success: boolean }> {
+    return this.backend.driveEngine(id, signal);
+  }
+
+  /**
+   * Gets a page of winners.
+   *
+   * @param {number} [page=1] - The page number to retrieve.
+   * @param {number} [limit=10] - The maximum number of winners per page.
+   * @param {'id' | 'wins' | 'time'} [sort='id'] - The field to sort by.
+   * @param {'ASC' | 'DESC'} [order='ASC'] - The sort direction.
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<GetWinnersResponse>} A promise that resolves with the list of winners and total count.
+   */
+  public async getWinners(
+    page = 1,
+    limit = 10,
+    sort: 'id' | 'wins' | 'time' = 'id',
+    order: 'ASC' | 'DESC' = 'ASC',
+    signal?: AbortSignal
+  ): Promise<GetWinnersResponse> {
+    return this.backend.getWinners(page, limit, sort, order, signal);
+  }
+
+  /**
+   * Gets winner data by car ID.
+   *
+   * @param {number} id - Car ID
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<WinnerInformationFromApi | undefined>} - The winner or undefined if the car never won.
+   */
+  public async getWinner(
+    id: number,
+    signal?: AbortSignal
+  ): Promise<WinnerInformationFromApi | undefined> {
+    return this.backend.getWinner(id, signal);
+  }
+
+  /**
+   * Gets the winner records of several cars at once.
+   *
+   * @param {number[]} ids - The IDs of the cars
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<WinnerInformationFromApi[]>} - The records of the cars that have won.
+   */
+  public async getWinnersByIds(
+    ids: number[],
+    signal?: AbortSignal
+  ): Promise<WinnerInformationFromApi[]> {
+    return this.backend.getWinnersByIds(ids, signal);
+  }
+
+  /**
+   * Creates a winner.
+   *
+   * @param {WinnerInformationFromApi} winner - Object with the information about the winner
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   */
+  public async createWinner(
+    winner: WinnerInformationFromApi,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.backend.createWinner(winner, signal);
+  }
+
+  /**
+   * Deletes a winner record.
+   *
+   * @param {number} id - The ID of the car
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   */
+  public async deleteWinner(id: number, signal?: AbortSignal): Promise<void> {
+    await this.backend.deleteWinner(id, signal);
+  }
+
+  /**
+   * Updates winner data by car ID.
+   *
+   * @param {number} id - Car ID
+   * @param {WinnerResponse} options - New winner data
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<void>}
+   */
+  public async updateWinner(
+    id: number,
+    options: WinnerResponse,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.backend.updateWinner(id, options, signal);
+  }
+
+  /**
+   * Finds winner records whose car no longer exists.
+   *
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<number[]>} A promise that resolves with the IDs of the orphaned winners.
+   */
+  public async findOrphanedWinners(signal?: AbortSignal): Promise<number[]> {
+    return this.backend.findOrphanedWinners(signal);
+  }
+
+  /**
+   * Deletes winner records whose car no longer exists.
+   *
+   * @param {AbortSignal} [signal] - Aborts the request when signalled.
+   * @return {Promise<number[]>} A promise that resolves with the IDs of the removed winners.
+   */
+  public async removeOrphanedWinners(signal?: AbortSignal): Promise<number[]> {
+    return this.backend.removeOrphanedWinners(signal);
+  }
+
+  /**
+   * Sends a mutation right away, or queues it when the server is unreachable.
+   * While older changes are pending, new ones are queued too to keep their order.
+   *
+   * @private
+   * @param {() => Promise<void>} send - Sends the mutation to the backend.
+   * @param {() => void} enqueue - Adds the mutation to the queue.
+   * @param {number} [id] - The ID of the affected car, if it already exists.
+   * @return {Promise<void>}
+   */
+  private async sendOrQueue(
+    send: () => Promise<void>,
+    enqueue: () => void,
+    id?: number
+  ): Promise<void> {
+    const isPendingCar = id !== undefined && id < 0;
+
+    if (this.queue.size === 0 && !isPendingCar) {
+      try {
+        await send();
+        return;
+      } catch (error) {
+        if (!(error instanceof NetworkError)) {
+          throw error;
+        }
+      }
+    }
+
+    enqueue();
+    this.notify();
+    this.scheduleSync();
+  }
+
+  /**
+   * Sends pending mutations one by one until the queue is empty
+   * or the server becomes unreachable again.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async replay(): Promise<void> {
+    for (
+      let mutation = this.queue.peek();
+      mutation;
+      mutation = this.queue.peek()
+    ) {
+      try {
+        await this.send(mutation);
+      } catch (error) {
+        if (this.isTransient(error)) {
+          this.scheduleSync();
+          return;
+        }
+
+        this.conflicts.push({ mutation, reason: this.describeConflict(error) });
+      }
+
+      this.queue.shift();
+      this.notify();
+    }
+
+    this.pageCache.clear();
+  }
+
+  /**
+   * Sends a single queued mutation to the backend.
+   *
+   * @private
+   * @param {PendingMutation} mutation - The mutation to send.
+   * @return {Promise<void>}
+   */
+  private async send(mutation: PendingMutation): Promise<void> {
+    switch (mutation.type) {
+      case 'create': {
+        await this.backend.createCar(mutation.car);
+        break;
+      }
+      case 'update': {
+        await this.backend.updateCar(mutation.id, mutation.car);
+        break;
+      }
+      case 'delete': {
+        try {
+          await this.backend.deleteCar(mutation.id);
+        } catch (error) {
+          if (!(error instanceof OrphanedWinnerError)) {
+            throw error;
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Checks whether a replay failure may succeed later.
+   *
+   * @private
+   * @param {unknown} error - The error thrown by the backend
+   * @return {boolean} True for network errors and 5xx responses.
+   */
+  private isTransient(error: unknown): boolean {
+    return (
+      error instanceof NetworkError ||
+      (error instanceof APIError &&
+        error.status !== undefined &&
+        error.status >= 500)
+    );
+  }
+
+  /**
+   * Explains why a queued mutation was dropped.
+   *
+   * @private
+   * @param {unknown} error - The error thrown by the backend
+   * @return {string} A message for the user.
+   */
+  private describeConflict(error: unknown): string {
+    if (error instanceof NotFoundError) {
+      return 'the car was deleted on the server';
+    }
+
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Retries the replay after a delay, unless a retry is already scheduled.
+   *
+   * @private
+   */
+  private scheduleSync(): void {
+    if (this.syncTimer !== undefined) {
+      return;
+    }
+
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = undefined;
+      void this.sync();
+    }, this.SYNC_INTERVAL);
+  }
+
+  /**
+   * Applies pending mutations to a page of cars.
+   * Queued cars are placed after the existing ones, like the server would do.
+   *
+   * @private
+   * @param {GetCarsResponse} response - The page as known to the backend.
+   * @param {number} page - The page number.
+   * @param {number} limit - The page size.
+   * @return {GetCarsResponse} The page with pending changes applied.
+   */
+  private applyPending(
+    response: GetCarsResponse,
+    page: number,
+    limit: number
+  ): GetCarsResponse {
+    const mutations = this.queue.list();
+    const deletedIds = new Set(
+      mutations.flatMap(({ type, id }) => (type === 'delete' ? [id] : []))
+    );
+    const updates = new Map(
+      mutations.flatMap((mutation) =>
+        mutation.type === 'update' ? [[mutation.id, mutation.car]] : []
+      )
+    );
+    const items = response.items
+      .filter((car) => !deletedIds.has(car.id))
+      .map((car) => ({ ...car, ...updates.get(car.id) }));
+
+    const existingCount = response.totalCount - deletedIds.size;
+    const createdCars = mutations.flatMap((mutation) =>
+      mutation.type === 'create' ? [{ ...mutation.car, id: mutation.id }] : []
+    );
+    const firstIndex = (page - 1) * limit;
+
+    createdCars.forEach((car, index) => {
+      const position = existingCount + index;
+
+      if (position >= firstIndex && position < firstIndex + limit) {
+        items.push(car);
+      }
+    });
+
+    return {
+      items,
+      totalCount: existingCount + createdCars.length,
+    };
+  }
+
+  /**
+   * Finds a car that is only created in the queue.
+   *
+   * @private
+   * @param {number} id - The temporary ID of the car.
+   * @return {(CarDataFromApi | undefined)} The queued car.
+   */
+  private findPendingCar(id: number): CarDataFromApi | undefined {
+    for (const mutation of this.queue.list()) {
+      if (mutation.type === 'create' && mutation.id === id) {
+        return { ...mutation.car, id };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the current pending changes state.
+   *
+   * @private
+   * @return {PendingChangesState} The state passed to listeners.
+   */
+  private getState(): PendingChangesState {
+    return {
+      pending: this.queue.size,
+      syncing: this.syncing !== undefined,
+      conflicts: [...this.conflicts],
+    };
+  }
+
+  /**
+   * Passes the current state to all listeners.
+   *
+   * @private
+   */
+  private notify(): void {
+    const state = this.getState();
+
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+}
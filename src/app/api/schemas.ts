@@ -0,0 +1,82 @@
+import type {
+  CarDataFromApi,
+  CarInformation,
+  Engine,
+  PendingMutation,
+  WinnerInformationFromApi,
+} from '../types/interfaces';
+import {
+  array,
+  boolean,
+  either,
+  literal,
+  number,
+  object,
+  string,
+} from '../utils/schema';
+
+const id = number({ integer: true, exclusiveMin: 0 });
+
+const color = string({
+  pattern: /^#(?:[\da-f]{3}){1,2}$/i,
+  description: 'hex color like #ff0000 or #f00',
+});
+
+export const carInformationSchema = object<CarInformation>({
+  name: string(),
+  color,
+});
+
+export const carSchema = object<CarDataFromApi>({
+  id,
+  name: string(),
+  color,
+});
+
+export const carListSchema = array(carSchema);
+
+/**
+ * Cars created while offline are queued under temporary negative IDs.
+ */
+const mutationId = number({ integer: true });
+
+export const pendingMutationSchema = either(
+  either(
+    object<Extract<PendingMutation, { type: 'create' }>>({
+      type: literal('create'),
+      id: mutationId,
+      car: carInformationSchema,
+    }),
+    object<Extract<PendingMutation, { type: 'update' }>>({
+      type: literal('update'),
+      id: mutationId,
+      car: carInformationSchema,
+    })
+  ),
+  object<Extract<PendingMutation, { type: 'delete' }>>({
+    type: literal('delete'),
+    id: mutationId,
+  })
+);
+
+export const winnerSchema = object<WinnerInformationFromApi>({
+  id,
+  wins: number({ integer: true, min: 0 }),
+  time: number({ min: 0 }),
+});
+
+export const winnerListSchema = array(winnerSchema);
+
+export const startedEngineSchema = object<Engine>({
+  velocity: number({ exclusiveMin: 0 }),
+  distance: number({ exclusiveMin: 0 }),
+});
+
+export const stoppedEngineSchema = object<Engine>({
+  velocity: number({ min: 0 }),
+  distance: number({ min: 0 }),
+});
+
+export const driveResultSchema = object<{ success: boolean }>({
+  success: boolean(),
+});
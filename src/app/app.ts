@@ -1,8 +1,27 @@
-import APIService from './api/api-service';
+import {
+  createBackend,
+  getSavedBackendType,
+  saveBackendType,
+} from './api/backend-factory';
+import type OfflineBackend from './api/offline-backend';
+import type { AppEventBus, AppStore } from './state/app-state';
+import { createAppEventBus, createAppStore } from './state/app-state';
+import TabSync from './state/tab-sync';
+import RaceHistory from './race/race-history';
+import Tournament from './race/tournament';
+import PredictionWallet from './race/prediction-wallet';
+import type {
+  BackendType,
+  EventMeta,
+  PendingChangesState,
+} from './types/interfaces';
 import Header from './ui/header/header';
 import Main from './ui/main/main';
+import PendingChanges from './ui/pending-changes/pending-changes';
 import Garage from './ui/pages/garage/garage';
+import History from './ui/pages/history/history';
 import Winner from './ui/pages/winner/winner';
+import Settings from './ui/settings/settings';
 
 /**
  * The main application class. Initializes and renders core UI components.
@@ -11,27 +30,69 @@ import Winner from './ui/pages/winner/winner';
  * @class App
  */
 export default class App {
-  public apiService: APIService;
+  public apiService: OfflineBackend;
   private root: HTMLElement;
+  private backendType: BackendType;
+  private store: AppStore;
+  private events: AppEventBus;
+  private tabSync: TabSync;
+  private raceHistory: RaceHistory;
 
   constructor() {
     this.root = document.body;
-    this.apiService = new APIService();
+    this.backendType = getSavedBackendType();
+    this.apiService = createBackend(this.backendType);
+    this.store = createAppStore();
+    this.events = createAppEventBus();
+    this.tabSync = new TabSync(this.events, `async-race-${this.backendType}`);
+    this.raceHistory = new RaceHistory(
+      this.events,
+      `async-race-history-${this.backendType}`
+    );
 
+    this.invalidateRemoteChanges();
     this.init();
   }
 
+  /**
+   * Drops cars changed or deleted in another tab from the backend cache.
+   * Registered before the views, so they reload the fresh cars.
+   *
+   * @private
+   */
+  private invalidateRemoteChanges(): void {
+    const invalidate = ({ id }: { id: number }, meta: EventMeta): void => {
+      if (meta.remote) {
+        this.apiService.invalidateCar(id);
+      }
+    };
+
+    this.events.on('carUpdated', invalidate);
+    this.events.on('carDeleted', invalidate);
+  }
+
   /**
    * Initializes the application view.
-   * Creates instances of Garage and Winner views and the main UI structure.
+   * Creates instances of Garage, Winner and History views and the main UI structure.
    *
    * @private
    */
   private init(): void {
-    const winnerView: Winner = new Winner(this.apiService);
-    const garageView: Garage = new Garage(this.apiService, winnerView);
+    const winnerView: Winner = new Winner(
+      this.apiService,
+      this.store,
+      this.events
+    );
+    const garageView: Garage = new Garage(
+      this.apiService,
+      this.store,
+      this.events,
+      new Tournament(`async-race-tournament-${this.backendType}`),
+      new PredictionWallet(`async-race-predictions-${this.backendType}`)
+    );
+    const historyView: History = new History(this.raceHistory);
 
-    this.createView(garageView, winnerView);
+    this.createView(garageView, winnerView, historyView);
   }
 
   /**
@@ -40,13 +101,70 @@ export default class App {
    * @private
    * @param {Garage} garageView - The instance of Garage class
    * @param {Winner} winnerView - The instance of Winner class
+   * @param {History} historyView - The instance of History class
    */
-  private createView(garageView: Garage, winnerView: Winner): void {
+  private createView(
+    garageView: Garage,
+    winnerView: Winner,
+    historyView: History
+  ): void {
     const main: Main = new Main();
-    const header: Header = new Header(main, garageView, winnerView);
+    const settings: Settings = new Settings(this.backendType, {
+      onBackendChange: this.handleBackendChange.bind(this),
+    });
+    const pendingChanges: PendingChanges = new PendingChanges({
+      onSync: (): void => {
+        void this.apiService.sync();
+      },
+      onDismiss: (): void => {
+        this.apiService.dismissConflicts();
+      },
+    });
+    const header: Header = new Header(
+      main,
+      garageView,
+      winnerView,
+      historyView,
+      settings,
+      pendingChanges
+    );
 
+    this.watchPendingChanges(pendingChanges);
     main.setContent(garageView);
 
     this.root.append(header.getHTMLElement(), main.getHTMLElement());
   }
+
+  /**
+   * Shows the pending changes state and announces the end of each sync.
+   *
+   * @private
+   * @param {PendingChanges} pendingChanges - The instance of PendingChanges class
+   */
+  private watchPendingChanges(pendingChanges: PendingChanges): void {
+    let wasSyncing = false;
+
+    this.apiService.subscribe((state: PendingChangesState) => {
+      pendingChanges.update(state);
+
+      if (wasSyncing && !state.syncing) {
+        this.events.emit('changesSynced', {
+          conflicts: state.conflicts.length,
+        });
+      }
+
+      wasSyncing = state.syncing;
+    });
+  }
+
+  /**
+   * Saves the selected backend and reloads the application to apply it.
+   *
+   * @private
+   * @param {BackendType} type - The selected backend type
+   */
+  private handleBackendChange(type: BackendType): void {
+    saveBackendType(type);
+    location.reload();
+  }
 }
@@ -0,0 +1,40 @@
+import type { Backend, CarDataFromApi } from '../types/interfaces';
+
+/**
+ * Loads every car of the garage page by page.
+ *
+ * @param {Backend} api - The backend to load the cars from
+ * @param {number} pageSize - The number of cars per request
+ * @param {AbortSignal} [signal] - Aborts loading when signalled
+ * @return {Promise<CarDataFromApi[]>} - A promise that resolves with all cars
+ */
+export const fetchAllCars = async (
+  api: Backend,
+  pageSize: number,
+  signal?: AbortSignal
+): Promise<CarDataFromApi[]> => {
+  const cars: CarDataFromApi[] = [];
+
+  for (let page = 1; ; page += 1) {
+    const { items, totalCount } = await api.getCars(page, pageSize, signal);
+
+    cars.push(...items);
+
+    if (items.length < pageSize || cars.length >= totalCount) {
+      return cars;
+    }
+  }
+};
+
+/**
+ * Splits the participants into consecutive heats of at most `size` cars.
+ *
+ * @template T
+ * @param {T[]} participants - All participants
+ * @param {number} size - The number of lanes on the track
+ * @return {T[][]} - The heats in racing order
+ */
+export const splitIntoHeats = <T>(participants: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(participants.length / size) }, (_, index) =>
+    participants.slice(index * size, (index + 1) * size)
+  );
@@ -0,0 +1,158 @@
+import type { Prediction, PredictionStats } from '../types/interfaces';
+import { number, object } from '../utils/schema';
+
+export const START_BALANCE = 100;
+
+const count = number({ integer: true, min: 0 });
+
+const statsSchema = object<PredictionStats>({
+  balance: count,
+  predictions: count,
+  correct: count,
+});
+
+/**
+ * Derives decimal odds for the cars of a race from their wins in the winners
+ * table. The win rate of a car is its share of the wins of all participants,
+ * with one win added to every car so cars without wins still get a chance.
+ *
+ * @param {Map<number, number>} wins - The number of wins of each car by ID
+ * @return {Map<number, number>} - The decimal odds of each car, rounded to hundredths
+ */
+export const computeOdds = (wins: Map<number, number>): Map<number, number> => {
+  const total = [...wins.values()].reduce((sum, carWins) => sum + carWins, 0);
+
+  return new Map(
+    [...wins].map(([carId, carWins]) => [
+      carId,
+      Math.round(((total + wins.size) / (carWins + 1)) * 100) / 100,
+    ])
+  );
+};
+
+/**
+ * Computes the payout of a prediction. In a dead heat the stake
+ * is divided between the winners, as with bookmakers.
+ *
+ * @param {Prediction} prediction - The predicted winner with stake and odds
+ * @param {number[]} winnerIds - The IDs of the cars in first place
+ * @return {number} - The coins paid out, the returned stake included
+ */
+export const getPayout = (
+  prediction: Prediction,
+  winnerIds: number[]
+): number =>
+  winnerIds.includes(prediction.carId)
+    ? Math.round((prediction.stake * prediction.odds) / winnerIds.length)
+    : 0;
+
+/**
+ * The virtual wallet of the prediction game with the accuracy of all
+ * predictions so far. A stake is only settled when its race is over,
+ * so a cancelled race costs nothing. The wallet is persisted in localStorage
+ * so it is kept across sessions.
+ *
+ * @export
+ * @class PredictionWallet
+ */
+export default class PredictionWallet {
+  private readonly storageKey: string;
+  private stats: PredictionStats;
+
+  /**
+   * Creates an instance of PredictionWallet and restores the saved wallet.
+   *
+   * @param {string} storageKey - The localStorage key of the wallet.
+   */
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+    this.stats = this.load();
+  }
+
+  /**
+   * The coins in the wallet.
+   *
+   * @readonly
+   * @type {number}
+   */
+  public get balance(): number {
+    return this.stats.balance;
+  }
+
+  /**
+   * The share of correct predictions in percent, or `undefined` before the first one.
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   */
+  public get accuracy(): number | undefined {
+    const { predictions, correct } = this.stats;
+
+    return predictions > 0
+      ? Math.round((correct / predictions) * 100)
+      : undefined;
+  }
+
+  /**
+   * The number of scored predictions.
+   *
+   * @readonly
+   * @type {number}
+   */
+  public get predictions(): number {
+    return this.stats.predictions;
+  }
+
+  /**
+   * Scores a prediction once its race is over: the stake is taken
+   * from the wallet and the payout of a correct prediction is added.
+   *
+   * @param {Prediction} prediction - The predicted winner with stake and odds
+   * @param {number[]} winnerIds - The IDs of the cars in first place
+   * @return {number} - The coins paid out, 0 if the prediction was wrong
+   * @throws {Error} If the wallet does not hold the stake.
+   */
+  public settle(prediction: Prediction, winnerIds: number[]): number {
+    if (prediction.stake > this.stats.balance) {
+      throw new Error('The wallet does not hold the stake');
+    }
+
+    const payout = getPayout(prediction, winnerIds);
+
+    this.stats.predictions += 1;
+    this.stats.correct += winnerIds.includes(prediction.carId) ? 1 : 0;
+    this.stats.balance += payout - prediction.stake;
+    this.save();
+
+    return payout;
+  }
+
+  /**
+   * Writes the wallet to localStorage.
+   *
+   * @private
+   */
+  private save(): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.stats));
+  }
+
+  /**
+   * Reads the wallet from localStorage, starting a new one if it is missing or malformed.
+   *
+   * @private
+   * @return {PredictionStats} The saved wallet.
+   */
+  private load(): PredictionStats {
+    const newWallet = { balance: START_BALANCE, predictions: 0, correct: 0 };
+
+    try {
+      const data: unknown = JSON.parse(
+        localStorage.getItem(this.storageKey) ?? 'null'
+      );
+
+      return statsSchema.is(data) ? data : newWallet;
+    } catch {
+      return newWallet;
+    }
+  }
+}
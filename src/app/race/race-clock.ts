@@ -0,0 +1,178 @@
+type RaceClockListener = () => void;
+
+interface ClockWaiter {
+  target: number;
+  resolve: () => void;
+  timeoutId: ReturnType<typeof setTimeout> | undefined;
+}
+
+export const RACE_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Measures race time: it runs with the wall time multiplied by the
+ * playback speed and stands still while paused. Animations, finish times
+ * and pauses between heats are all measured on this clock.
+ *
+ * @export
+ * @class RaceClock
+ */
+export default class RaceClock {
+  private elapsed = 0;
+  private anchor = performance.now();
+  private paused = false;
+  private currentSpeed = 1;
+  private waiters = new Set<ClockWaiter>();
+  private listeners: RaceClockListener[] = [];
+
+  /**
+   * Whether the clock is paused.
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  public get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * The playback speed, 1 being real time.
+   *
+   * @readonly
+   * @type {number}
+   */
+  public get speed(): number {
+    return this.currentSpeed;
+  }
+
+  /**
+   * Returns the current race time.
+   *
+   * @return {number} - The race time in milliseconds
+   */
+  public now(): number {
+    return this.paused
+      ? this.elapsed
+      : this.elapsed + (performance.now() - this.anchor) * this.currentSpeed;
+  }
+
+  /**
+   * Stops the clock until it is resumed.
+   *
+   */
+  public pause(): void {
+    if (this.paused) return;
+
+    this.elapsed = this.now();
+    this.paused = true;
+    this.changed();
+  }
+
+  /**
+   * Lets a paused clock run again.
+   *
+   */
+  public resume(): void {
+    if (!this.paused) return;
+
+    this.anchor = performance.now();
+    this.paused = false;
+    this.changed();
+  }
+
+  /**
+   * Changes the playback speed from this moment on.
+   *
+   * @param {number} speed - The new speed, 1 being real time
+   */
+  public setSpeed(speed: number): void {
+    this.elapsed = this.now();
+    this.anchor = performance.now();
+    this.currentSpeed = speed;
+    this.changed();
+  }
+
+  /**
+   * Waits for the given race time, so the wait stretches with pauses and slow speeds.
+   *
+   * @param {number} ms - The race time to wait in milliseconds
+   * @param {AbortSignal} [signal] - The signal that cancels waiting
+   * @return {Promise<void>} - A promise that resolves once the race time has passed or rejects on abort
+   */
+  public wait(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(waiter.timeoutId);
+        this.waiters.delete(waiter);
+        reject(signal?.reason);
+      };
+      const waiter: ClockWaiter = {
+        target: this.now() + ms,
+        resolve: (): void => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        timeoutId: undefined,
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.waiters.add(waiter);
+      this.schedule(waiter);
+    });
+  }
+
+  /**
+   * Registers a listener that is called whenever the clock is paused,
+   * resumed or changes speed.
+   *
+   * @param {RaceClockListener} listener - Called after the clock changed
+   */
+  public subscribe(listener: RaceClockListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Reschedules the pending waits and calls all listeners.
+   *
+   * @private
+   */
+  private changed(): void {
+    for (const waiter of this.waiters) {
+      this.schedule(waiter);
+    }
+
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Sets the timer of a pending wait for the wall time left at the current speed.
+   * A paused clock sets no timer; resuming schedules it again.
+   *
+   * @private
+   * @param {ClockWaiter} waiter - The pending wait
+   */
+  private schedule(waiter: ClockWaiter): void {
+    clearTimeout(waiter.timeoutId);
+    waiter.timeoutId = undefined;
+
+    if (this.paused) return;
+
+    const remaining = waiter.target - this.now();
+
+    if (remaining <= 0) {
+      this.waiters.delete(waiter);
+      waiter.resolve();
+      return;
+    }
+
+    waiter.timeoutId = setTimeout(() => {
+      this.schedule(waiter);
+    }, remaining / this.currentSpeed);
+  }
+}
@@ -0,0 +1,207 @@
+import { carSchema } from '../api/schemas';
+import type { AppEventBus } from '../state/app-state';
+import type {
+  CarDataFromApi,
+  HeatFinish,
+  RaceDnf,
+  RaceHistoryPage,
+  RaceParticipant,
+  RaceRecord,
+  RaceResultEntry,
+  RaceSummary,
+  Schema,
+} from '../types/interfaces';
+import { array, number, object, string } from '../utils/schema';
+import { buildRaceResult } from './race-results';
+
+type RaceHistoryListener = () => void;
+
+const id = number({ integer: true, exclusiveMin: 0 });
+
+const raceSummaryShape: { [K in keyof RaceSummary]: Schema<RaceSummary[K]> } = {
+  title: string(),
+  cars: array(carSchema),
+  finishes: array(object<HeatFinish>({ id, time: number({ min: 0 }) })),
+  dnfs: array(object<RaceDnf>({ id, distance: number({ min: 0 }) })),
+};
+
+export const raceSummarySchema = object<RaceSummary>(raceSummaryShape);
+
+const raceRecordSchema = object<RaceRecord>({
+  ...raceSummaryShape,
+  id,
+  timestamp: number({ integer: true, min: 0 }),
+});
+
+/**
+ * Converts the result of a race into the summary stored in the history.
+ *
+ * @param {string} title - The name of the race
+ * @param {RaceResultEntry[]} result - The result entries in finishing order
+ * @return {RaceSummary} - The participants with their finish times and DNFs
+ */
+export const toRaceSummary = (
+  title: string,
+  result: RaceResultEntry[]
+): RaceSummary => ({
+  title,
+  cars: result.map(({ car }) => car),
+  finishes: result.flatMap(({ car, time }) =>
+    time === undefined ? [] : [{ id: car.id, time }]
+  ),
+  dnfs: result.flatMap(({ car, time, distance }) =>
+    time === undefined ? [{ id: car.id, distance }] : []
+  ),
+});
+
+/**
+ * Rebuilds the complete result of a stored race.
+ *
+ * @param {RaceSummary} summary - The stored race
+ * @return {RaceResultEntry[]} - The result entries in finishing order
+ */
+export const toRaceResult = (summary: RaceSummary): RaceResultEntry[] =>
+  buildRaceResult(
+    summary.cars.flatMap((car): RaceParticipant[] => {
+      const finish = summary.finishes.find((entry) => entry.id === car.id);
+      const dnf = summary.dnfs.find((entry) => entry.id === car.id);
+
+      if (finish) {
+        return [{ car, outcome: { status: 'finished', time: finish.time } }];
+      }
+
+      return dnf
+        ? [{ car, outcome: { status: 'dnf', distance: dnf.distance } }]
+        : [];
+    })
+  );
+
+/**
+ * Stores every completed race of this tab in localStorage, newest first,
+ * since the server has no endpoint for past races.
+ * Tabs of the same backend share the history; races completed in
+ * another tab are already stored there and only notify the listeners.
+ *
+ * @export
+ * @class RaceHistory
+ */
+export default class RaceHistory {
+  private readonly MAX_RECORDS = 500;
+  private readonly storageKey: string;
+  private listeners: RaceHistoryListener[] = [];
+
+  /**
+   * Creates an instance of RaceHistory and starts recording completed races.
+   *
+   * @param {AppEventBus} events - The shared application event bus
+   * @param {string} storageKey - The localStorage key of the history
+   */
+  constructor(events: AppEventBus, storageKey: string) {
+    this.storageKey = storageKey;
+
+    events.on('raceCompleted', (race, meta) => {
+      if (!meta.remote) {
+        this.add(race);
+      }
+
+      this.notify();
+    });
+  }
+
+  /**
+   * Registers a listener that is called whenever a race is added.
+   *
+   * @param {RaceHistoryListener} listener - Called after the history changed
+   */
+  public subscribe(listener: RaceHistoryListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Returns one page of past races, newest first.
+   *
+   * @param {number} page - The page number, starting from 1
+   * @param {number} limit - The number of races per page
+   * @param {number} [carId] - Only races this car took part in
+   * @return {RaceHistoryPage} - The races of the page and the total number of matching races
+   */
+  public list(page: number, limit: number, carId?: number): RaceHistoryPage {
+    const records = this.load().filter(
+      (record) =>
+        carId === undefined || record.cars.some((car) => car.id === carId)
+    );
+
+    return {
+      items: records.slice((page - 1) * limit, page * limit),
+      totalCount: records.length,
+    };
+  }
+
+  /**
+   * Returns every car that took part in a stored race,
+   * with the name and color of its latest race.
+   *
+   * @return {CarDataFromApi[]} - The cars sorted by name
+   */
+  public getCars(): CarDataFromApi[] {
+    const cars = new Map<number, CarDataFromApi>();
+
+    for (const record of this.load()) {
+      for (const car of record.cars) {
+        if (!cars.has(car.id)) {
+          cars.set(car.id, car);
+        }
+      }
+    }
+
+    return [...cars.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Stores a completed race, dropping the oldest races over the limit.
+   *
+   * @private
+   * @param {RaceSummary} race - The completed race
+   */
+  private add(race: RaceSummary): void {
+    const records = this.load();
+    const lastId = Math.max(0, ...records.map((record) => record.id));
+
+    records.unshift({ ...race, id: lastId + 1, timestamp: Date.now() });
+    localStorage.setItem(
+      this.storageKey,
+      JSON.stringify(records.slice(0, this.MAX_RECORDS))
+    );
+  }
+
+  /**
+   * Calls all listeners.
+   *
+   * @private
+   */
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Reads the history from localStorage, dropping malformed races.
+   *
+   * @private
+   * @return {RaceRecord[]} The stored races, newest first.
+   */
+  private load(): RaceRecord[] {
+    try {
+      const data: unknown = JSON.parse(
+        localStorage.getItem(this.storageKey) ?? '[]'
+      );
+
+      return Array.isArray(data)
+        ? data.filter((item) => raceRecordSchema.is(item))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import type {
+  CarDataFromApi,
+  CarReaction,
+  Engine,
+  RaceReplay,
+  ReplayEvent,
+} from '../types/interfaces';
+import type RaceClock from './race-clock';
+import { REPLAY_VERSION } from './race-replay';
+
+/**
+ * Records a race as a compact event log: when each car started with its
+ * engine parameters, how it reacted to the start signal and when its
+ * engine broke down. Everything else
+ * follows from these values, so the log is enough to replay the race.
+ * Times are taken from the race clock, so pauses are left out.
+ *
+ * @export
+ * @class RaceRecorder
+ */
+export default class RaceRecorder {
+  private readonly title: string;
+  private readonly cars: CarDataFromApi[];
+  private readonly clock: RaceClock;
+  private readonly laps: number;
+  private readonly startTime: number;
+  private events: ReplayEvent[] = [];
+
+  /**
+   * Creates an instance of RaceRecorder. Times are measured from this moment.
+   *
+   * @param {string} title - The name of the race
+   * @param {CarDataFromApi[]} cars - The participants
+   * @param {RaceClock} clock - The clock the race is measured on
+   * @param {number} laps - The number of laps of the race
+   */
+  constructor(
+    title: string,
+    cars: CarDataFromApi[],
+    clock: RaceClock,
+    laps: number
+  ) {
+    this.title = title;
+    this.cars = cars;
+    this.clock = clock;
+    this.laps = laps;
+    this.startTime = clock.now();
+  }
+
+  /**
+   * Records that a car started moving, at the start of every lap.
+   *
+   * @param {number} carId - The ID of the car
+   * @param {Engine} engine - The velocity and distance returned by the engine
+   */
+  public recordStart(carId: number, engine: Engine): void {
+    this.events.push({ type: 'start', carId, at: this.now(), ...engine });
+  }
+
+  /**
+   * Records how a car reacted to the start signal.
+   *
+   * @param {number} carId - The ID of the car
+   * @param {CarReaction} reaction - The delay before the car moved off and whether it jumped the start
+   */
+  public recordReaction(carId: number, reaction: CarReaction): void {
+    this.events.push({ type: 'reaction', carId, at: this.now(), ...reaction });
+  }
+
+  /**
+   * Records that the engine of a car broke down.
+   *
+   * @param {number} carId - The ID of the car
+   */
+  public recordBreak(carId: number): void {
+    this.events.push({ type: 'break', carId, at: this.now() });
+  }
+
+  /**
+   * Returns the recorded race.
+   *
+   * @return {RaceReplay} - The event log with the participants
+   */
+  public getReplay(): RaceReplay {
+    return {
+      version: REPLAY_VERSION,
+      title: this.title,
+      laps: this.laps,
+      cars: this.cars,
+      events: [...this.events],
+    };
+  }
+
+  /**
+   * Returns the time since the recording started.
+   *
+   * @private
+   * @return {number} - The time in milliseconds, rounded
+   */
+  private now(): number {
+    return Math.round(this.clock.now() - this.startTime);
+  }
+}
@@ -0,0 +1,178 @@
+import { carSchema } from '../api/schemas';
+import type {
+  CarRaceOutcome,
+  RaceReplay,
+  RaceResultEntry,
+  ReplayEvent,
+  Schema,
+} from '../types/interfaces';
+import {
+  array,
+  boolean,
+  either,
+  literal,
+  number,
+  object,
+  string,
+} from '../utils/schema';
+import { buildRaceResult } from './race-results';
+
+export const REPLAY_VERSION = 2;
+
+type SingleLapReplay = Omit<RaceReplay, 'laps'>;
+
+const id = number({ integer: true, exclusiveMin: 0 });
+const at = number({ min: 0 });
+
+const singleLapShape: {
+  [K in keyof SingleLapReplay]: Schema<SingleLapReplay[K]>;
+} = {
+  version: number({ integer: true, min: 1 }),
+  title: string(),
+  cars: array(carSchema),
+  events: array(
+    either(
+      either(
+        object<Extract<ReplayEvent, { type: 'start' }>>({
+          type: literal('start'),
+          carId: id,
+          at,
+          velocity: number({ exclusiveMin: 0 }),
+          distance: number({ exclusiveMin: 0 }),
+        }),
+        object<Extract<ReplayEvent, { type: 'break' }>>({
+          type: literal('break'),
+          carId: id,
+          at,
+        })
+      ),
+      object<Extract<ReplayEvent, { type: 'reaction' }>>({
+        type: literal('reaction'),
+        carId: id,
+        at,
+        delay: number({ min: 0 }),
+        falseStart: boolean(),
+      })
+    )
+  ),
+};
+
+const replaySchema = object<RaceReplay>({
+  ...singleLapShape,
+  version: number({ integer: true, min: REPLAY_VERSION }),
+  laps: number({ integer: true, min: 1 }),
+});
+
+/**
+ * Replays of version 1 were recorded before races had several laps.
+ */
+const singleLapReplaySchema = object<SingleLapReplay>(singleLapShape);
+
+/**
+ * Computes the outcome of one car of a recorded race. Every start of the car
+ * begins a lap that takes `distance / velocity` unless the engine broke down
+ * before; the car finishes once it has driven all laps. The reaction delay
+ * at the start, if recorded, is added to the first lap.
+ *
+ * @param {RaceReplay} replay - The recorded race
+ * @param {number} carId - The ID of the car
+ * @return {CarRaceOutcome} - The total time with the lap times, or the share
+ * of the race covered with the completed laps
+ */
+const getReplayOutcome = (
+  replay: RaceReplay,
+  carId: number
+): CarRaceOutcome => {
+  const events = replay.events.filter((event) => event.carId === carId);
+  const starts = events.flatMap((event) =>
+    event.type === 'start' ? [event] : []
+  );
+  const breakdown = events.find((event) => event.type === 'break');
+  const reaction = events.find((event) => event.type === 'reaction');
+  const delay = reaction?.type === 'reaction' ? reaction.delay : 0;
+  const laps = starts.map(
+    ({ distance, velocity }, index) =>
+      distance / velocity + (index === 0 ? delay : 0)
+  );
+  const lastStart = starts.at(-1);
+  const lastLap = lastStart ? lastStart.distance / lastStart.velocity : 0;
+
+  if (lastStart && breakdown && breakdown.at - lastStart.at < lastLap) {
+    const share = (breakdown.at - lastStart.at) / lastLap;
+
+    return {
+      status: 'dnf',
+      distance: (starts.length - 1 + share) / replay.laps,
+      laps: laps.slice(0, -1),
+    };
+  }
+
+  return starts.length < replay.laps
+    ? { status: 'dnf', distance: starts.length / replay.laps, laps }
+    : {
+        status: 'finished',
+        time: laps.reduce((total, lap) => total + lap, 0),
+        laps,
+      };
+};
+
+/**
+ * Computes the result of a recorded race from the event log alone.
+ *
+ * @param {RaceReplay} replay - The recorded race
+ * @return {RaceResultEntry[]} - The result entries in finishing order
+ */
+export const getReplayResult = (replay: RaceReplay): RaceResultEntry[] =>
+  buildRaceResult(
+    replay.cars.map((car) => ({
+      car,
+      outcome: getReplayOutcome(replay, car.id),
+    }))
+  );
+
+/**
+ * Reads a replay from an exported JSON file.
+ *
+ * @param {string} text - The content of the file
+ * @return {RaceReplay} - The recorded race
+ * @throws {Error} If the file is not a race replay
+ */
+export const parseReplay = (text: string): RaceReplay => {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Race replay is not valid JSON');
+  }
+
+  if (replaySchema.is(data)) {
+    return data;
+  }
+
+  if (singleLapReplaySchema.is(data) && data.version < REPLAY_VERSION) {
+    return { ...data, laps: 1 };
+  }
+
+  const issue = replaySchema.validate(data);
+
+  throw new Error(
+    `Invalid race replay ${issue?.path ?? ''}: ${issue?.message ?? ''}`
+  );
+};
+
+/**
+ * Saves a replay as a JSON file.
+ *
+ * @param {RaceReplay} replay - The recorded race
+ */
+export const downloadReplay = (replay: RaceReplay): void => {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `race-replay-${String(Date.now())}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,110 @@
+import type {
+  FastestLap,
+  RaceParticipant,
+  RaceResultEntry,
+} from '../types/interfaces';
+import { toSeconds } from '../utils/utilities';
+
+/**
+ * Tells whether two finish times are a dead heat. Times are compared at the
+ * precision shown to the user and stored in the winners table, so cars
+ * that look equally fast are never ranked by chance.
+ *
+ * @param {number} first - The first finish time in ms
+ * @param {number} second - The second finish time in ms
+ * @return {boolean} - `true` if the times are equal
+ */
+export const isSameTime = (first: number, second: number): boolean =>
+  toSeconds(first) === toSeconds(second);
+
+/**
+ * Builds the complete result of a race: the finishers by time with their
+ * positions and gaps to the leader, followed by the cars that did not finish,
+ * the furthest first. Cars with the same time share their position.
+ * The lap times of each car are kept as they are.
+ *
+ * @param {RaceParticipant[]} participants - The outcome of every car of the race
+ * @return {RaceResultEntry[]} - The result entries in finishing order
+ */
+export const buildRaceResult = (
+  participants: RaceParticipant[]
+): RaceResultEntry[] => {
+  const finished = participants
+    .flatMap(({ car, outcome }) =>
+      outcome.status === 'finished'
+        ? [{ car, time: outcome.time, laps: outcome.laps ?? [] }]
+        : []
+    )
+    .sort((a, b) => a.time - b.time);
+  const notFinished = participants
+    .flatMap(({ car, outcome }) =>
+      outcome.status === 'dnf'
+        ? [{ car, distance: outcome.distance, laps: outcome.laps ?? [] }]
+        : []
+    )
+    .sort((a, b) => b.distance - a.distance);
+  const leaderTime = finished[0]?.time ?? 0;
+
+  return [
+    ...finished.map(({ car, time, laps }) => ({
+      car,
+      position: finished.findIndex((other) => isSameTime(other.time, time)) + 1,
+      tied: finished.filter((other) => isSameTime(other.time, time)).length > 1,
+      time,
+      gap: isSameTime(time, leaderTime) ? 0 : time - leaderTime,
+      distance: 1,
+      laps,
+    })),
+    ...notFinished.map(({ car, distance, laps }) => ({
+      car,
+      position: undefined,
+      tied: false,
+      time: undefined,
+      gap: undefined,
+      distance,
+      laps,
+    })),
+  ];
+};
+
+/**
+ * Returns the winners of a race: the fastest car,
+ * or every car of a dead heat for first place.
+ *
+ * @param {RaceResultEntry[]} result - The result entries in finishing order
+ * @return {RaceResultEntry[]} - The entries in first position
+ */
+export const getRaceWinners = (result: RaceResultEntry[]): RaceResultEntry[] =>
+  result.filter(({ position }) => position === 1);
+
+/**
+ * Returns the fastest lap of a race over all cars, including the completed
+ * laps of cars that did not finish. On equal times the earlier lap counts.
+ *
+ * @param {RaceResultEntry[]} result - The result entries in finishing order
+ * @return {(FastestLap | undefined)} - The car, lap number and lap time,
+ * or `undefined` if no lap times were recorded
+ */
+export const getFastestLap = (
+  result: RaceResultEntry[]
+): FastestLap | undefined =>
+  result
+    .flatMap(({ car, laps }) =>
+      laps.map((time, index) => ({ car, lap: index + 1, time }))
+    )
+    .reduce<
+      FastestLap | undefined
+    >((fastest, lap) => (fastest && fastest.time <= lap.time ? fastest : lap), undefined);
+
+/**
+ * Tells whether a race had several laps with recorded lap times: a car
+ * drove more than one lap, or completed a lap without finishing the race.
+ *
+ * @param {RaceResultEntry[]} result - The result entries in finishing order
+ * @return {boolean} - `true` if the lap times are worth showing
+ */
+export const hasLapTimes = (result: RaceResultEntry[]): boolean =>
+  result.some(
+    ({ laps, time }) =>
+      laps.length > 1 || (time === undefined && laps.length > 0)
+  );
@@ -0,0 +1,63 @@
+import type {
+  CarRaceOutcome,
+  CarReaction,
+  RaceStartRules,
+} from '../types/interfaces';
+
+export const DEFAULT_START_RULES: RaceStartRules = {
+  countdown: false,
+  reactionStart: false,
+  falseStartPenalty: 1000,
+};
+
+export const MAX_LAPS = 10;
+export const COUNTDOWN_LIGHTS = 3;
+export const COUNTDOWN_STEP = 1000;
+
+const REACTION_MIN = 150;
+const REACTION_MAX = 450;
+const FALSE_START_CHANCE = 0.1;
+
+/**
+ * Draws how a car reacts to the start signal. Every car moves off after
+ * a reaction time of 150 to 450 ms; a car that jumps the start is held
+ * on the line for the false-start penalty on top of it, so jumping
+ * the start never pays off.
+ *
+ * @param {number} penalty - The false-start penalty in ms
+ * @param {() => number} [random=Math.random] - The source of random numbers in [0, 1)
+ * @return {CarReaction} - The delay before the car moves off and whether it jumped the start
+ */
+export const drawReaction = (
+  penalty: number,
+  random: () => number = Math.random
+): CarReaction => {
+  const falseStart = random() < FALSE_START_CHANCE;
+  const reaction = Math.round(
+    REACTION_MIN + random() * (REACTION_MAX - REACTION_MIN)
+  );
+
+  return falseStart
+    ? { delay: reaction + penalty, falseStart }
+    : { delay: reaction, falseStart };
+};
+
+/**
+ * Adds the reaction delay of a car to its race time and to its first lap.
+ *
+ * @param {CarRaceOutcome} outcome - The outcome of the car from the start signal on
+ * @param {number} delay - The reaction delay in ms
+ * @return {CarRaceOutcome} - The outcome with the delay included
+ */
+export const addReactionDelay = (
+  outcome: CarRaceOutcome,
+  delay: number
+): CarRaceOutcome => {
+  const laps = (outcome.laps ?? []).map((lap, index) =>
+    index === 0 ? lap + delay : lap
+  );
+
+  return outcome.status === 'finished'
+    ? { ...outcome, time: outcome.time + delay, laps }
+    : { ...outcome, laps };
+};
@@ -0,0 +1,82 @@
+import type { AppStore } from '../state/app-state';
+import type { RaceStatus } from '../types/interfaces';
+
+type RaceStateListener = (status: RaceStatus, previous: RaceStatus) => void;
+
+const TRANSITIONS: Record<RaceStatus, RaceStatus[]> = {
+  idle: ['preparing', 'resetting'],
+  preparing: ['racing', 'resetting'],
+  racing: ['preparing', 'finished', 'resetting'],
+  finished: ['resetting'],
+  resetting: ['idle'],
+};
+
+/**
+ * The life cycle of a race on the garage track:
+ * idle → preparing → racing → finished → resetting → idle.
+ * A race of several heats goes back from racing to preparing for the next heat,
+ * and a race can be reset at any time. The status is kept in the store,
+ * and listeners are told about every transition so the controls can follow it.
+ *
+ * @export
+ * @class RaceStateMachine
+ */
+export default class RaceStateMachine {
+  private store: AppStore;
+  private listeners: RaceStateListener[] = [];
+
+  /**
+   * Creates an instance of RaceStateMachine.
+   *
+   * @param {AppStore} store - The shared application state holding the race status
+   */
+  constructor(store: AppStore) {
+    this.store = store;
+  }
+
+  /**
+   * The current race status.
+   *
+   * @readonly
+   * @type {RaceStatus}
+   */
+  public get status(): RaceStatus {
+    return this.store.getState().raceStatus;
+  }
+
+  /**
+   * Moves the race to another status if the current status allows it.
+   * Moving to the current status does nothing.
+   *
+   * @param {RaceStatus} status - The new status
+   * @return {boolean} - `false` if the transition is not allowed
+   */
+  public transition(status: RaceStatus): boolean {
+    const previous = this.status;
+
+    if (status === previous) {
+      return true;
+    }
+
+    if (!TRANSITIONS[previous].includes(status)) {
+      return false;
+    }
+
+    this.store.setState({ raceStatus: status });
+
+    for (const listener of this.listeners) {
+      listener(status, previous);
+    }
+
+    return true;
+  }
+
+  /**
+   * Registers a listener that is called after every transition.
+   *
+   * @param {RaceStateListener} listener - Receives the new and the previous status
+   */
+  public subscribe(listener: RaceStateListener): void {
+    this.listeners.push(listener);
+  }
+}
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import RaceClock from './race-clock';
+import RaceSupervisor from './race-supervisor';
+
+const DURATION = 20;
+const GRACE = 10;
+
+Object.assign(globalThis, {
+  document: {
+    visibilityState: 'visible',
+    addEventListener: (): undefined => undefined,
+  },
+});
+
+/**
+ * Resolves after the given real time.
+ *
+ * @param {number} ms - The delay in milliseconds
+ * @return {Promise<void>}
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+/**
+ * Watches one car on a supervisor and reports whether it was given up.
+ *
+ * @param {RaceClock} clock - The race clock
+ * @param {boolean} confirmed - Whether the server confirms the drive
+ * @return {Promise<boolean>} - Whether the car was given up after its deadline passed
+ */
+const watchCar = async (
+  clock: RaceClock,
+  confirmed: boolean
+): Promise<boolean> => {
+  const supervisor = new RaceSupervisor(clock, GRACE);
+  let expired = false;
+
+  supervisor.watch({
+    carId: 1,
+    startTime: clock.now(),
+    duration: DURATION,
+    onCatchUp: (): undefined => undefined,
+    onExpire: (): void => {
+      expired = true;
+    },
+  });
+
+  if (confirmed) {
+    supervisor.confirm(1);
+  }
+
+  await sleep((DURATION + GRACE) * 3);
+  supervisor.dispose();
+
+  return expired;
+};
+
+test('gives up a car whose drive is not confirmed in real time', async () => {
+  const clock = new RaceClock();
+
+  clock.setSpeed(4);
+
+  assert.equal(await watchCar(clock, false), true);
+});
+
+test('keeps a confirmed car in a slow race', async () => {
+  const clock = new RaceClock();
+
+  clock.setSpeed(0.25);
+
+  assert.equal(await watchCar(clock, true), false);
+});
+
+test('keeps a confirmed car in a paused race', async () => {
+  const clock = new RaceClock();
+
+  clock.pause();
+
+  assert.equal(await watchCar(clock, true), false);
+});
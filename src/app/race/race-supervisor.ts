@@ -0,0 +1,139 @@
+import type { SupervisedCar } from '../types/interfaces';
+import type RaceClock from './race-clock';
+
+interface WatchedCar {
+  car: SupervisedCar;
+  deadline: number;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Watches the cars of one race so it always comes to an end. A car that
+ * has not been confirmed by the server some time after its expected finish
+ * is given up, and when a background tab becomes visible again the cars
+ * catch up with the race clock at once instead of waiting for the next frames.
+ * The deadline only guards the drive request: it is measured in real time,
+ * like the request, and disarmed once the server confirms the drive,
+ * so a slow or paused race never gives up a car that was confirmed.
+ *
+ * @export
+ * @class RaceSupervisor
+ */
+export default class RaceSupervisor {
+  private readonly clock: RaceClock;
+  private readonly grace: number;
+  private cars = new Map<number, WatchedCar>();
+  private controller = new AbortController();
+
+  /**
+   * Creates an instance of RaceSupervisor and starts listening for the tab becoming visible.
+   *
+   * @param {RaceClock} clock - The clock the race is measured on
+   * @param {number} grace - The real time in ms the server may take beyond the expected finish
+   */
+  constructor(clock: RaceClock, grace: number) {
+    this.clock = clock;
+    this.grace = grace;
+
+    document.addEventListener(
+      'visibilitychange',
+      () => {
+        if (document.visibilityState === 'visible') {
+          this.reconcile();
+        }
+      },
+      { signal: this.controller.signal }
+    );
+  }
+
+  /**
+   * Starts watching a car whose drive request has just been sent.
+   * The server answers the request in real time, after the duration of the drive.
+   *
+   * @param {SupervisedCar} car - The car with its expected finish and its handlers
+   */
+  public watch(car: SupervisedCar): void {
+    const timeout = car.duration + this.grace;
+
+    this.release(car.carId);
+    this.cars.set(car.carId, {
+      car,
+      deadline: performance.now() + timeout,
+      timeoutId: setTimeout(() => {
+        if (document.visibilityState === 'visible') {
+          this.expire(car.carId);
+        }
+      }, timeout),
+    });
+  }
+
+  /**
+   * Disarms the deadline of a car whose drive the server confirmed.
+   * The car is still brought up to date when the tab becomes visible.
+   *
+   * @param {number} carId - The ID of the car
+   */
+  public confirm(carId: number): void {
+    const watched = this.cars.get(carId);
+
+    if (watched) {
+      clearTimeout(watched.timeoutId);
+      watched.deadline = Infinity;
+    }
+  }
+
+  /**
+   * Stops watching a car whose race is over.
+   *
+   * @param {number} carId - The ID of the car
+   */
+  public release(carId: number): void {
+    clearTimeout(this.cars.get(carId)?.timeoutId);
+    this.cars.delete(carId);
+  }
+
+  /**
+   * Stops watching all cars and the tab visibility.
+   *
+   */
+  public dispose(): void {
+    this.controller.abort();
+
+    for (const carId of [...this.cars.keys()]) {
+      this.release(carId);
+    }
+  }
+
+  /**
+   * Brings every car up to date: cars past their expected finish on the
+   * race clock arrive, and cars past their real-time deadline are given up.
+   *
+   * @private
+   */
+  private reconcile(): void {
+    for (const { car, deadline } of [...this.cars.values()]) {
+      if (this.clock.now() - car.startTime >= car.duration) {
+        car.onCatchUp();
+      }
+
+      if (performance.now() >= deadline) {
+        this.expire(car.carId);
+      }
+    }
+  }
+
+  /**
+   * Gives up a car that is still being watched.
+   *
+   * @private
+   * @param {number} carId - The ID of the car
+   */
+  private expire(carId: number): void {
+    const watched = this.cars.get(carId);
+
+    if (watched) {
+      this.release(carId);
+      watched.car.onExpire();
+    }
+  }
+}
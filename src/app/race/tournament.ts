@@ -0,0 +1,263 @@
+import { carSchema } from '../api/schemas';
+import type {
+  CarDataFromApi,
+  HeatFinish,
+  TournamentChampion,
+  TournamentHeat,
+  TournamentState,
+} from '../types/interfaces';
+import { array, boolean, number, object } from '../utils/schema';
+import { isSameTime } from './race-results';
+
+const tournamentSchema = object<TournamentState>({
+  heatSize: number({ integer: true, exclusiveMin: 0 }),
+  rounds: array(
+    array(
+      object<TournamentHeat>({
+        cars: array(carSchema),
+        finishes: array(
+          object<HeatFinish>({
+            id: number({ integer: true, exclusiveMin: 0 }),
+            time: number({ min: 0 }),
+          })
+        ),
+      })
+    )
+  ),
+  credited: boolean(),
+});
+
+/**
+ * Distributes the cars over the smallest possible number of heats
+ * one by one, so the heats have nearly equal sizes and the first
+ * seeds meet as late as possible.
+ *
+ * @param {CarDataFromApi[]} cars - The cars in seeding order
+ * @param {number} size - The maximum number of cars in a heat
+ * @return {TournamentHeat[]} - The heats of the round, not raced yet
+ */
+export const seedHeats = (
+  cars: CarDataFromApi[],
+  size: number
+): TournamentHeat[] => {
+  const heats: TournamentHeat[] = Array.from(
+    { length: Math.ceil(cars.length / size) },
+    () => ({ cars: [], finishes: [] })
+  );
+
+  for (const [index, car] of cars.entries()) {
+    heats[index % heats.length]?.cars.push(car);
+  }
+
+  return heats;
+};
+
+/**
+ * Returns the car that advances from the heat: the fastest finisher,
+ * or the only car of a heat without opponents.
+ *
+ * @param {TournamentHeat} heat - The heat
+ * @return {(TournamentChampion | undefined)} - The heat winner with its time,
+ * or `undefined` if the heat is not decided yet
+ */
+export const getHeatWinner = (
+  heat: TournamentHeat
+): TournamentChampion | undefined => {
+  const [fastest] = [...heat.finishes].sort((a, b) => a.time - b.time);
+  const [onlyCar] = heat.cars;
+
+  if (fastest) {
+    const car = heat.cars.find(({ id }) => id === fastest.id);
+
+    return car ? { car, time: fastest.time } : undefined;
+  }
+
+  return heat.cars.length === 1 && onlyCar
+    ? { car: onlyCar, time: undefined }
+    : undefined;
+};
+
+/**
+ * Elimination tournament: the participants race in heats, the winner
+ * of each heat advances to the next round until one champion is left.
+ * The bracket is persisted in localStorage so it survives reloads.
+ *
+ * @export
+ * @class Tournament
+ */
+export default class Tournament {
+  private readonly storageKey: string;
+  private tournament: TournamentState | undefined;
+
+  /**
+   * Creates an instance of Tournament and restores a saved bracket.
+   *
+   * @param {string} storageKey - The localStorage key of the bracket.
+   */
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+    this.tournament = this.load();
+  }
+
+  /**
+   * The current bracket, or `undefined` when no tournament is running.
+   *
+   * @readonly
+   * @type {(TournamentState | undefined)}
+   */
+  public get state(): TournamentState | undefined {
+    return this.tournament;
+  }
+
+  /**
+   * The winner of the final, once it has been raced.
+   *
+   * @readonly
+   * @type {(TournamentChampion | undefined)}
+   */
+  public get champion(): TournamentChampion | undefined {
+    const finalRound = this.tournament?.rounds.at(-1);
+
+    if (finalRound?.length !== 1 || !finalRound[0]) {
+      return undefined;
+    }
+
+    return getHeatWinner(finalRound[0]);
+  }
+
+  /**
+   * Starts a new tournament in random order, replacing the current one.
+   *
+   * @param {CarDataFromApi[]} cars - The participants
+   * @param {number} heatSize - The maximum number of cars in a heat
+   */
+  public start(cars: CarDataFromApi[], heatSize: number): void {
+    const draw = cars
+      .map((car) => ({ car, order: Math.random() }))
+      .sort((a, b) => a.order - b.order)
+      .map(({ car }) => car);
+
+    this.tournament = {
+      heatSize,
+      rounds: [seedHeats(draw, heatSize)],
+      credited: false,
+    };
+    this.advance();
+    this.save();
+  }
+
+  /**
+   * Returns the next heat to race with its round and heat numbers.
+   *
+   * @return {({ heat: TournamentHeat; round: number; index: number } | undefined)}
+   * The first undecided heat, or `undefined` when the champion is known.
+   */
+  public nextHeat():
+    | { heat: TournamentHeat; round: number; index: number }
+    | undefined {
+    const rounds = this.tournament?.rounds ?? [];
+    const round = rounds.length;
+    const heats = rounds.at(-1) ?? [];
+    const index = heats.findIndex((heat) => !getHeatWinner(heat));
+    const heat = heats[index];
+
+    return heat ? { heat, round, index: index + 1 } : undefined;
+  }
+
+  /**
+   * Records the finish times of the next heat. A heat where no car
+   * finished, or with a dead heat for first place, stays undecided
+   * and has to be raced again.
+   *
+   * @param {HeatFinish[]} finishes - The time of every car that finished
+   * @return {(TournamentChampion | undefined)} - The heat winner, if any
+   */
+  public recordHeat(finishes: HeatFinish[]): TournamentChampion | undefined {
+    const next = this.nextHeat();
+
+    const [first, second] = [...finishes].sort((a, b) => a.time - b.time);
+
+    if (!next || !first || (second && isSameTime(first.time, second.time))) {
+      return undefined;
+    }
+
+    next.heat.finishes = finishes;
+    this.advance();
+    this.save();
+
+    return getHeatWinner(next.heat);
+  }
+
+  /**
+   * Remembers that the champion was credited in the winners table.
+   */
+  public markCredited(): void {
+    if (this.tournament) {
+      this.tournament.credited = true;
+      this.save();
+    }
+  }
+
+  /**
+   * Abandons the tournament.
+   */
+  public clear(): void {
+    this.tournament = undefined;
+    localStorage.removeItem(this.storageKey);
+  }
+
+  /**
+   * Seeds the next round from the heat winners, fastest first,
+   * once every heat of the last round is decided.
+   *
+   * @private
+   */
+  private advance(): void {
+    const lastRound = this.tournament?.rounds.at(-1);
+
+    if (!this.tournament || !lastRound || lastRound.length < 2) {
+      return;
+    }
+
+    const winners = lastRound.map((heat) => getHeatWinner(heat));
+
+    if (winners.some((winner) => winner === undefined)) {
+      return;
+    }
+
+    const seeded = winners
+      .filter((winner) => winner !== undefined)
+      .sort((a, b) => (a.time ?? Infinity) - (b.time ?? Infinity))
+      .map(({ car }) => car);
+
+    this.tournament.rounds.push(seedHeats(seeded, this.tournament.heatSize));
+    this.advance();
+  }
+
+  /**
+   * Writes the bracket to localStorage.
+   *
+   * @private
+   */
+  private save(): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.tournament));
+  }
+
+  /**
+   * Reads the bracket from localStorage, dropping it if it is malformed.
+   *
+   * @private
+   * @return {(TournamentState | undefined)} The saved bracket.
+   */
+  private load(): TournamentState | undefined {
+    try {
+      const data: unknown = JSON.parse(
+        localStorage.getItem(this.storageKey) ?? 'null'
+      );
+
+      return tournamentSchema.is(data) ? data : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
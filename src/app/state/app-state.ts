@@ -0,0 +1,34 @@
+import type { AppEvents, AppState } from '../types/interfaces';
+import EventBus from './event-bus';
+import Store from './store';
+
+export type AppStore = Store<AppState>;
+
+export type AppEventBus = EventBus<AppEvents>;
+
+const INITIAL_APP_STATE: AppState = {
+  cars: [],
+  carsTotal: 0,
+  garagePage: 1,
+  winners: [],
+  winnersTotal: 0,
+  winnersPage: 1,
+  winnersSort: 'id',
+  winnersOrder: 'ASC',
+  raceStatus: 'idle',
+  selectedCars: [],
+};
+
+/**
+ * Creates the store shared by all views.
+ *
+ * @return {AppStore} - The store with the initial application state
+ */
+export const createAppStore = (): AppStore => new Store(INITIAL_APP_STATE);
+
+/**
+ * Creates the event bus shared by all views.
+ *
+ * @return {AppEventBus} - The application event bus
+ */
+export const createAppEventBus = (): AppEventBus => new EventBus<AppEvents>();
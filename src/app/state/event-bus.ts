@@ -0,0 +1,98 @@
+import type { EventMeta } from '../types/interfaces';
+
+type Listener<T> = (payload: T, meta: EventMeta) => void;
+
+type AnyListener<Events> = <K extends keyof Events>(
+  type: K,
+  payload: Events[K],
+  meta: EventMeta
+) => void;
+
+const LOCAL: EventMeta = { remote: false };
+
+/**
+ * Typed publish/subscribe channel for domain events,
+ * so views can react to each other without holding references.
+ * Events received from other tabs are emitted with `meta.remote` set.
+ *
+ * @export
+ * @class EventBus
+ * @template Events - Maps each event name to its payload type
+ */
+export default class EventBus<Events extends object> {
+  private listeners: { [K in keyof Events]?: Listener<Events[K]>[] } = {};
+  private anyListeners: AnyListener<Events>[] = [];
+
+  /**
+   * Registers a listener for an event.
+   *
+   * @template K
+   * @param {K} type - The event name
+   * @param {Listener<Events[K]>} listener - Receives the event payload and its origin
+   * @return {() => void} A function that removes the listener.
+   */
+  public on<K extends keyof Events>(
+    type: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    (this.listeners[type] ??= []).push(listener);
+
+    return (): void => {
+      this.off(type, listener);
+    };
+  }
+
+  /**
+   * Registers a listener for every event.
+   *
+   * @param {AnyListener<Events>} listener - Receives the event name, payload and origin
+   * @return {() => void} A function that removes the listener.
+   */
+  public onAny(listener: AnyListener<Events>): () => void {
+    this.anyListeners.push(listener);
+
+    return (): void => {
+      this.anyListeners = this.anyListeners.filter(
+        (current) => current !== listener
+      );
+    };
+  }
+
+  /**
+   * Removes a listener of an event.
+   *
+   * @template K
+   * @param {K} type - The event name
+   * @param {Listener<Events[K]>} listener - The listener to remove
+   */
+  public off<K extends keyof Events>(
+    type: K,
+    listener: Listener<Events[K]>
+  ): void {
+    this.listeners[type] = this.listeners[type]?.filter(
+      (current) => current !== listener
+    );
+  }
+
+  /**
+   * Calls every listener of an event in registration order.
+   *
+   * @template K
+   * @param {K} type - The event name
+   * @param {Events[K]} payload - The event data
+   * @param {EventMeta} [meta=LOCAL] - Where the event comes from
+   */
+  public emit<K extends keyof Events>(
+    type: K,
+    payload: Events[K],
+    meta: EventMeta = LOCAL
+  ): void {
+    for (const listener of this.listeners[type] ?? []) {
+      listener(payload, meta);
+    }
+
+    for (const listener of this.anyListeners) {
+      listener(type, payload, meta);
+    }
+  }
+}
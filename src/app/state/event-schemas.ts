@@ -0,0 +1,37 @@
+import type { AppEvents, Schema } from '../types/interfaces';
+import { carInformationSchema, winnerSchema } from '../api/schemas';
+import { raceSummarySchema } from '../race/race-history';
+import { array, number, object, string } from '../utils/schema';
+
+const id = number({ integer: true });
+
+/**
+ * The payload schema of every application event,
+ * used to check events received from other tabs.
+ */
+export const APP_EVENT_SCHEMAS: {
+  [K in keyof AppEvents]: Schema<AppEvents[K]>;
+} = {
+  carCreated: object({ car: carInformationSchema }),
+  carUpdated: object({ id, car: carInformationSchema }),
+  carDeleted: object({ id }),
+  carsGenerated: object({ count: number({ integer: true, min: 0 }) }),
+  raceStarted: object({ carIds: array(id) }),
+  raceFinished: object({
+    carId: id,
+    name: string(),
+    time: number({ min: 0 }),
+  }),
+  winnerSaved: winnerSchema,
+  changesSynced: object({ conflicts: number({ integer: true, min: 0 }) }),
+  raceCompleted: raceSummarySchema,
+};
+
+/**
+ * Checks if a value is the name of an application event.
+ *
+ * @param {unknown} value - The value to check
+ * @return {value is keyof AppEvents} - True for known event names
+ */
+export const isAppEventType = (value: unknown): value is keyof AppEvents =>
+  typeof value === 'string' && Object.keys(APP_EVENT_SCHEMAS).includes(value);
@@ -0,0 +1,60 @@
+type StateListener<State> = (state: Readonly<State>, previous: State) => void;
+
+/**
+ * Holds application state shared between views and notifies subscribers on every change.
+ *
+ * @export
+ * @class Store
+ * @template State
+ */
+export default class Store<State extends object> {
+  private state: State;
+  private listeners: StateListener<State>[] = [];
+
+  /**
+   * Creates an instance of Store.
+   *
+   * @param {State} initialState - The state before any change.
+   */
+  constructor(initialState: State) {
+    this.state = initialState;
+  }
+
+  /**
+   * Returns the current state.
+   *
+   * @return {Readonly<State>} The current state.
+   */
+  public getState(): Readonly<State> {
+    return this.state;
+  }
+
+  /**
+   * Merges changes into the state and notifies subscribers.
+   *
+   * @param {Partial<State>} changes - The changed fields.
+   */
+  public setState(changes: Partial<State>): void {
+    const previous = this.state;
+
+    this.state = { ...previous, ...changes };
+
+    for (const listener of this.listeners) {
+      listener(this.state, previous);
+    }
+  }
+
+  /**
+   * Registers a listener for state changes.
+   *
+   * @param {StateListener<State>} listener - Receives the new and the previous state.
+   * @return {() => void} A function that removes the listener.
+   */
+  public subscribe(listener: StateListener<State>): () => void {
+    this.listeners.push(listener);
+
+    return (): void => {
+      this.listeners = this.listeners.filter((current) => current !== listener);
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import type { AppEvents, TabMessage } from '../types/interfaces';
+import type { AppEventBus } from './app-state';
+import { APP_EVENT_SCHEMAS, isAppEventType } from './event-schemas';
+
+/**
+ * Mirrors application events between browser tabs through a BroadcastChannel.
+ * Local events are posted to the other tabs; events from other tabs are
+ * validated and emitted on the local bus with `meta.remote` set,
+ * so views can refresh what changed elsewhere.
+ *
+ * @export
+ * @class TabSync
+ */
+export default class TabSync {
+  private readonly events: AppEventBus;
+  private readonly channel: BroadcastChannel | undefined;
+
+  /**
+   * Creates an instance of TabSync. Does nothing where BroadcastChannel is unavailable.
+   *
+   * @param {AppEventBus} events - The application event bus
+   * @param {string} channelName - Tabs that use the same name are kept in sync
+   */
+  constructor(events: AppEventBus, channelName: string) {
+    this.events = events;
+
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.addEventListener('message', (event: MessageEvent) => {
+      this.receive(event.data);
+    });
+    this.events.onAny((type, payload, meta) => {
+      if (!meta.remote) {
+        this.post({ type, payload });
+      }
+    });
+  }
+
+  /**
+   * Sends an event to the other tabs.
+   *
+   * @private
+   * @param {TabMessage} message - The event name and payload
+   */
+  private post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  /**
+   * Emits a valid event received from another tab.
+   *
+   * @private
+   * @param {unknown} data - The received message
+   */
+  private receive(data: unknown): void {
+    if (
+      typeof data !== 'object' ||
+      data === null ||
+      !('type' in data) ||
+      !('payload' in data) ||
+      !isAppEventType(data.type)
+    ) {
+      return;
+    }
+
+    this.emitRemote(data.type, data.payload);
+  }
+
+  /**
+   * Emits an event from another tab if its payload matches the event schema.
+   * Invalid payloads are dropped silently.
+   *
+   * @private
+   * @template K
+   * @param {K} type - The event name
+   * @param {unknown} payload - The received payload
+   */
+  private emitRemote<K extends keyof AppEvents>(
+    type: K,
+    payload: unknown
+  ): void {
+    const schema = APP_EVENT_SCHEMAS[type];
+
+    if (schema.is(payload)) {
+      this.events.emit(type, payload, { remote: true });
+    }
+  }
+}
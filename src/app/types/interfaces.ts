@@ -27,8 +27,19 @@ export interface GaragePanelCallbacks {
   onCreate: (data: CarInformation) => Promise<void>;
   onUpdate: (data: CarInformation) => Promise<void>;
   onRace: () => Promise<void>;
+  onGrandRace: () => Promise<void>;
+  onTournament: () => Promise<void>;
   onReset: () => void;
-  onGenerate: () => Promise<void>;
+  onGenerate: (options: GenerationOptions) => Promise<void>;
+  onRetryGeneration: () => Promise<void>;
+  onImportReplay: (text: string) => void;
+  onTogglePause: () => void;
+  onSpeedChange: (speed: number) => void;
+  onStartRulesChange: (rules: RaceStartRules) => void;
+  onLapsChange: (laps: number) => void;
+  onRaceSelected: () => Promise<void>;
+  onDeselect: (id: number) => void;
+  onClearSelection: () => void;
 }
 
 export interface CarDataFromApi extends CarInformation {
@@ -67,6 +78,12 @@ export interface CarCallbacks {
   onDelete: (id: number) => Promise<void>;
   onStart: (id: number) => Promise<void>;
   onStop: (id: number) => Promise<void>;
+  onToggleSelection: (data: CarDataFromApi, selected: boolean) => void;
+}
+
+export interface CarBreakdown {
+  time: number;
+  distance: number;
 }
 
 export interface Engine {
@@ -79,6 +96,7 @@ export interface CarAnimationOptions {
   car: SVGElement;
   duration: number;
   distance: number;
+  engine: Engine;
   onFinish?: (carId: number, timeElapsed: number) => void;
 }
 
@@ -96,3 +114,358 @@ export interface PaginationCallbacks {
   goToPrevPage: () => void;
   goToNextPage: () => void;
 }
+
+export interface EngineSimulatorOptions {
+  breakdownChance?: number;
+  timeScale?: number;
+  random?: () => number;
+}
+
+export type EngineDriveStatus =
+  | 'finished'
+  | 'broken'
+  | 'not-started'
+  | 'in-progress'
+  | 'stopped';
+
+export interface FakeServerOptions extends EngineSimulatorOptions {
+  garage?: CarDataFromApi[];
+  winners?: WinnerInformationFromApi[];
+}
+
+export interface FakeServerRoute {
+  resource: string;
+  id: number | undefined;
+}
+
+export type BackendType = 'server' | 'local';
+
+export interface Backend {
+  getCars: (
+    page?: number,
+    limit?: number,
+    signal?: AbortSignal
+  ) => Promise<GetCarsResponse>;
+  getCar: (id: number, signal?: AbortSignal) => Promise<CarDataFromApi>;
+  getCarsByIds: (
+    ids: number[],
+    signal?: AbortSignal
+  ) => Promise<CarDataFromApi[]>;
+  updateCar: (
+    id: number,
+    options: CarInformation,
+    signal?: AbortSignal
+  ) => Promise<void>;
+  createCar: (car: CarInformation, signal?: AbortSignal) => Promise<void>;
+  deleteCar: (id: number, signal?: AbortSignal) => Promise<void>;
+  startEngine: (id: number, signal?: AbortSignal) => Promise<Engine>;
+  stopEngine: (id: number, signal?: AbortSignal) => Promise<Engine>;
+  driveEngine: (
+    id: number,
+    signal?: AbortSignal
+  ) => Promise<{ success: boolean }>;
+  getWinners: (
+    page?: number,
+    limit?: number,
+    sort?: 'id' | 'wins' | 'time',
+    order?: 'ASC' | 'DESC',
+    signal?: AbortSignal
+  ) => Promise<GetWinnersResponse>;
+  getWinner: (
+    id: number,
+    signal?: AbortSignal
+  ) => Promise<WinnerInformationFromApi | undefined>;
+  getWinnersByIds: (
+    ids: number[],
+    signal?: AbortSignal
+  ) => Promise<WinnerInformationFromApi[]>;
+  createWinner: (
+    winner: WinnerInformationFromApi,
+    signal?: AbortSignal
+  ) => Promise<void>;
+  deleteWinner: (id: number, signal?: AbortSignal) => Promise<void>;
+  updateWinner: (
+    id: number,
+    options: WinnerResponse,
+    signal?: AbortSignal
+  ) => Promise<void>;
+  findOrphanedWinners: (signal?: AbortSignal) => Promise<number[]>;
+  removeOrphanedWinners: (signal?: AbortSignal) => Promise<number[]>;
+  invalidateCar: (id: number) => void;
+}
+
+export interface SettingsCallbacks {
+  onBackendChange: (type: BackendType) => void;
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+  factor: number;
+}
+
+export interface RequestOptions {
+  context: string;
+  retry?: boolean;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  validate: (value: unknown, path?: string) => SchemaIssue | undefined;
+  is: (value: unknown) => value is T;
+}
+
+export interface NumberRules {
+  integer?: boolean;
+  min?: number;
+  exclusiveMin?: number;
+}
+
+export interface StringRules {
+  pattern?: RegExp;
+  description?: string;
+}
+
+export type PendingMutation =
+  | { type: 'create'; id: number; car: CarInformation }
+  | { type: 'update'; id: number; car: CarInformation }
+  | { type: 'delete'; id: number };
+
+export interface MutationConflict {
+  mutation: PendingMutation;
+  reason: string;
+}
+
+export interface PendingChangesState {
+  pending: number;
+  syncing: boolean;
+  conflicts: MutationConflict[];
+}
+
+export interface PendingChangesCallbacks {
+  onSync: () => void;
+  onDismiss: () => void;
+}
+
+export type WinnerSort = 'id' | 'wins' | 'time';
+
+export type SortOrder = 'ASC' | 'DESC';
+
+export type RaceStatus =
+  | 'idle'
+  | 'preparing'
+  | 'racing'
+  | 'finished'
+  | 'resetting';
+
+export interface AppState {
+  cars: CarDataFromApi[];
+  carsTotal: number;
+  garagePage: number;
+  winners: WinnerInformationFromApi[];
+  winnersTotal: number;
+  winnersPage: number;
+  winnersSort: WinnerSort;
+  winnersOrder: SortOrder;
+  raceStatus: RaceStatus;
+  selectedCars: CarDataFromApi[];
+}
+
+export interface AppEvents {
+  carCreated: { car: CarInformation };
+  carUpdated: { id: number; car: CarInformation };
+  carDeleted: { id: number };
+  carsGenerated: { count: number };
+  raceStarted: { carIds: number[] };
+  raceFinished: { carId: number; name: string; time: number };
+  winnerSaved: WinnerInformationFromApi;
+  changesSynced: { conflicts: number };
+  raceCompleted: RaceSummary;
+}
+
+export interface EventMeta {
+  remote: boolean;
+}
+
+export interface TabMessage {
+  type: string;
+  payload: unknown;
+}
+
+export type ColorPalette = 'any' | 'warm' | 'cool' | 'pastel' | 'grayscale';
+
+export interface GenerationOptions {
+  count: number;
+  brands: string[];
+  palette: ColorPalette;
+}
+
+export interface GenerateDialogCallbacks {
+  onSubmit: (options: GenerationOptions) => void;
+}
+
+export interface BulkProgress {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export interface BulkOptions {
+  concurrency: number;
+  onProgress?: (progress: BulkProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface BulkFailure<T> {
+  item: T;
+  error: unknown;
+}
+
+export interface BulkResult<T> {
+  succeeded: T[];
+  failed: BulkFailure<T>[];
+}
+
+export type DriveOutcome = 'confirmed' | 'broken' | 'stopped';
+
+export type CarRaceOutcome =
+  | { status: 'finished'; time: number; laps?: number[] }
+  | { status: 'dnf'; distance: number; laps?: number[] };
+
+export interface RaceParticipant {
+  car: CarDataFromApi;
+  outcome: CarRaceOutcome;
+}
+
+export interface RaceResultEntry {
+  car: CarDataFromApi;
+  position: number | undefined;
+  tied: boolean;
+  time: number | undefined;
+  gap: number | undefined;
+  distance: number;
+  laps: number[];
+}
+
+export interface FastestLap {
+  car: CarDataFromApi;
+  lap: number;
+  time: number;
+}
+
+export interface HeatFinish {
+  id: number;
+  time: number;
+}
+
+export interface TournamentHeat {
+  cars: CarDataFromApi[];
+  finishes: HeatFinish[];
+}
+
+export interface TournamentState {
+  heatSize: number;
+  rounds: TournamentHeat[][];
+  credited: boolean;
+}
+
+export interface TournamentChampion {
+  car: CarDataFromApi;
+  time: number | undefined;
+}
+
+export interface TournamentDialogCallbacks {
+  onSubmit: (cars: CarDataFromApi[]) => void;
+}
+
+export interface TournamentBracketCallbacks {
+  onRunHeat: () => Promise<void>;
+  onAbandon: () => void;
+}
+
+export interface RaceDnf {
+  id: number;
+  distance: number;
+}
+
+export interface RaceSummary {
+  title: string;
+  cars: CarDataFromApi[];
+  finishes: HeatFinish[];
+  dnfs: RaceDnf[];
+}
+
+export interface RaceRecord extends RaceSummary {
+  id: number;
+  timestamp: number;
+}
+
+export interface RaceHistoryPage {
+  items: RaceRecord[];
+  totalCount: number;
+}
+
+export type ReplayEvent =
+  | {
+      type: 'start';
+      carId: number;
+      at: number;
+      velocity: number;
+      distance: number;
+    }
+  | { type: 'break'; carId: number; at: number }
+  | {
+      type: 'reaction';
+      carId: number;
+      at: number;
+      delay: number;
+      falseStart: boolean;
+    };
+
+export interface RaceReplay {
+  version: number;
+  title: string;
+  laps: number;
+  cars: CarDataFromApi[];
+  events: ReplayEvent[];
+}
+
+export interface SupervisedCar {
+  carId: number;
+  startTime: number;
+  duration: number;
+  onCatchUp: () => void;
+  onExpire: () => void;
+}
+
+export interface RaceStartRules {
+  countdown: boolean;
+  reactionStart: boolean;
+  falseStartPenalty: number;
+}
+
+export interface CarReaction {
+  delay: number;
+  falseStart: boolean;
+}
+
+export interface PredictionStats {
+  balance: number;
+  predictions: number;
+  correct: number;
+}
+
+export interface Prediction {
+  carId: number;
+  stake: number;
+  odds: number;
+}
+
+export interface RaceResultsCallbacks {
+  onReplay: (replay: RaceReplay, speed: number) => void;
+}
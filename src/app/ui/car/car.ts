@@ -3,12 +3,14 @@ import carSvgString from '../../../assets/images/car.svg?raw';
 import flagSvgString from '../../../assets/images/flag.svg?raw';
 
 import type {
+  CarBreakdown,
   CarCallbacks,
   CarDataFromApi,
   Creator,
   InteractiveElementOptions,
 } from '../../types/interfaces';
 import ElementCreator from '../../utils/element-creator';
+import { toSeconds } from '../../utils/utilities';
 import Button from '../button/button';
 import View from '../view';
 
@@ -24,6 +26,32 @@ export default class Car extends View {
   public flagImageElement!: SVGElement;
   private stopButtonElement!: Button;
   private startButtonElement!: Button;
+  private lockedButtons: Button[] = [];
+  private trackElement!: ElementCreator;
+  private badgeElement = new ElementCreator({
+    tag: 'span',
+    classNames: [styles.carBadge],
+    textContent: 'DNF',
+    attributes: { hidden: '' },
+  });
+  private lapElement = new ElementCreator({
+    tag: 'span',
+    classNames: [styles.carLap],
+    attributes: { hidden: '' },
+  });
+  private selectionElement = new ElementCreator({
+    tag: 'input',
+    classNames: [styles.carCheckbox],
+    attributes: { type: 'checkbox', title: 'Select for a race' },
+  });
+  private markerElement = new ElementCreator({
+    tag: 'span',
+    classNames: [styles.carMarker],
+    textContent: '✖',
+    attributes: { hidden: '' },
+  });
+  private isRunning = false;
+  private isLocked = false;
   private data: CarDataFromApi;
   private callbacks: CarCallbacks;
   private DEFAULT_COLOR = '#ff0000';
@@ -50,26 +78,122 @@ export default class Car extends View {
     this.createView();
   }
 
+  /**
+   * The name of the car.
+   *
+   * @readonly
+   * @type {string}
+   */
+  public get name(): string {
+    return this.data.name;
+  }
+
   /**
    * Sets the enabled/disabled state of the car's Start (A) and Stop (B) buttons.
+   * A car that starts again no longer shows its last breakdown.
    *
    * @param {string} [state=this.STOP_STATE] - Specifies the state the buttons should reflect.
    */
   public handleButtonState(state: string = this.STOP_STATE): void {
-    if (state === this.START_STATE) {
-      this.startButtonElement
-        .getHTMLElement()
-        .setAttribute(this.DISABLED_STATE, '');
-      this.stopButtonElement
-        .getHTMLElement()
-        .removeAttribute(this.DISABLED_STATE);
-    } else {
-      this.stopButtonElement
-        .getHTMLElement()
-        .setAttribute(this.DISABLED_STATE, '');
-      this.startButtonElement
+    this.isRunning = state === this.START_STATE;
+    this.updateButtons();
+
+    if (this.isRunning) {
+      this.clearBreakdown();
+    }
+  }
+
+  /**
+   * Shows that the engine broke down: a marker where the car stopped,
+   * a DNF badge next to the name and a tooltip with the time and distance.
+   *
+   * @param {CarBreakdown} breakdown - When and where the engine failed
+   */
+  public showBreakdown(breakdown: CarBreakdown): void {
+    const trackRect = this.trackElement.getElement().getBoundingClientRect();
+    const carRect = this.carImageElement.getBoundingClientRect();
+    const marker = this.markerElement.getElement();
+    const tooltip = `Engine failed after ${String(toSeconds(breakdown.time))}s at ${String(Math.round(breakdown.distance * 100))}% of the track`;
+
+    marker.style.left = `${String(carRect.right - trackRect.left)}px`;
+    marker.title = tooltip;
+    marker.hidden = false;
+    this.badgeElement.getElement().hidden = false;
+    this.getHTMLElement().classList.add(styles.carBroken);
+    this.getHTMLElement().title = tooltip;
+  }
+
+  /**
+   * Removes the breakdown marker, badge, style and tooltip.
+   *
+   */
+  public clearBreakdown(): void {
+    this.markerElement.getElement().hidden = true;
+    this.badgeElement.getElement().hidden = true;
+    this.getHTMLElement().classList.remove(styles.carBroken);
+    this.getHTMLElement().removeAttribute('title');
+  }
+
+  /**
+   * Shows which lap the car is driving. A race of one lap shows nothing.
+   *
+   * @param {number} lap - The lap being driven, starting at 1
+   * @param {number} laps - The number of laps of the race
+   */
+  public showLap(lap: number, laps: number): void {
+    this.lapElement.setTextContent(`Lap ${String(lap)}/${String(laps)}`);
+    this.lapElement.getElement().hidden = laps < 2;
+  }
+
+  /**
+   * Hides the lap the car was driving.
+   *
+   */
+  public hideLap(): void {
+    this.lapElement.getElement().hidden = true;
+  }
+
+  /**
+   * Checks or unchecks the selection checkbox of the car.
+   *
+   * @param {boolean} selected - Whether the car is selected for a race
+   */
+  public setSelected(selected: boolean): void {
+    const checkbox = this.selectionElement.getElement();
+
+    if (checkbox instanceof HTMLInputElement) {
+      checkbox.checked = selected;
+    }
+  }
+
+  /**
+   * Locks the Select, Remove and Start (A) buttons while a race of the
+   * whole track is in progress. The Stop (B) button still follows the car.
+   *
+   * @param {boolean} locked - Whether a race is in progress
+   */
+  public setRaceLocked(locked: boolean): void {
+    this.isLocked = locked;
+    this.updateButtons();
+  }
+
+  /**
+   * Applies the running and locked state to the buttons.
+   *
+   * @private
+   */
+  private updateButtons(): void {
+    this.startButtonElement
+      .getHTMLElement()
+      .toggleAttribute(this.DISABLED_STATE, this.isRunning || this.isLocked);
+    this.stopButtonElement
+      .getHTMLElement()
+      .toggleAttribute(this.DISABLED_STATE, !this.isRunning);
+
+    for (const button of this.lockedButtons) {
+      button
         .getHTMLElement()
-        .removeAttribute(this.DISABLED_STATE);
+        .toggleAttribute(this.DISABLED_STATE, this.isLocked);
     }
   }
 
@@ -98,6 +222,7 @@ export default class Car extends View {
       classNames: [styles.carTopPart],
     };
     const container: ElementCreator = new ElementCreator(containerOptions);
+    container.addInnerElement(this.createSelectionCheckbox());
 
     const buttons = [
       {
@@ -118,6 +243,7 @@ export default class Car extends View {
 
     for (const button of buttons) {
       const buttonElement: Button = new Button(button);
+      this.lockedButtons.push(buttonElement);
       container.addInnerElement(buttonElement.getHTMLElement());
     }
 
@@ -129,10 +255,31 @@ export default class Car extends View {
 
     const carName: ElementCreator = new ElementCreator(headerOptions);
     container.addInnerElement(carName.getElement());
+    container.addInnerElement(this.badgeElement);
+    container.addInnerElement(this.lapElement);
 
     return container;
   }
 
+  /**
+   * Creates the checkbox that adds the car to the selection
+   * or removes it, wherever the car is in the garage.
+   *
+   * @private
+   * @return {HTMLElement} The selection checkbox.
+   */
+  private createSelectionCheckbox(): HTMLElement {
+    const checkbox = this.selectionElement.getElement();
+
+    if (checkbox instanceof HTMLInputElement) {
+      checkbox.addEventListener('change', () => {
+        this.callbacks.onToggleSelection(this.data, checkbox.checked);
+      });
+    }
+
+    return checkbox;
+  }
+
   /**
    * Creates the bottom track section for the car.
    *
@@ -145,6 +292,7 @@ export default class Car extends View {
       classNames: [styles.carBottomPart],
     };
     const container: ElementCreator = new ElementCreator(containerOptions);
+    this.trackElement = container;
 
     this.carImageElement = this.renderImage(
       String(carSvgString),
@@ -161,6 +309,7 @@ export default class Car extends View {
 
     container.getElement().append(this.carImageElement);
     container.getElement().append(this.flagImageElement);
+    container.addInnerElement(this.markerElement);
     return container;
   }
 
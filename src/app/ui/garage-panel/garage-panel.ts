@@ -1,15 +1,22 @@
 import styles from './garage-panel.module.scss';
 import type {
+  BulkProgress,
+  CarDataFromApi,
   CarInformation,
   Creator,
   GaragePanelCallbacks,
   GeneratorOptions,
   InteractiveElementOptions,
+  RaceStartRules,
+  RaceStatus,
 } from '../../types/interfaces';
 import Button from '../button/button';
 import View from '../view';
 import Generator from '../generator/generator';
 import ElementCreator from '../../utils/element-creator';
+import GenerateDialog from '../generate-dialog/generate-dialog';
+import { RACE_SPEEDS } from '../../race/race-clock';
+import { DEFAULT_START_RULES, MAX_LAPS } from '../../race/race-start';
 
 enum Buttons {
   CREATE = 'Create',
@@ -28,13 +35,31 @@ export default class GaragePanel extends View {
   private callbacks: GaragePanelCallbacks;
   private updateForm: Generator | undefined = undefined;
   private raceButton: Button | undefined;
+  private grandRaceButton: Button | undefined;
+  private tournamentButton: Button | undefined;
+  private resetButton: Button | undefined;
+  private generateButton: Button | undefined;
+  private generateDialog: GenerateDialog;
+  private generationStatus: ElementCreator | undefined;
+  private generationProgress: ElementCreator | undefined;
+  private generationText: ElementCreator | undefined;
+  private retryButton: Button | undefined;
+  private pauseButton: Button | undefined;
+  private speedSelect: HTMLSelectElement | undefined;
+  private startRules: RaceStartRules = { ...DEFAULT_START_RULES };
+  private ruleInputs: HTMLInputElement[] = [];
+  private selectionTray: ElementCreator | undefined;
+  private selectionList: ElementCreator | undefined;
+  private selectionText: ElementCreator | undefined;
+  private raceSelectedButton: Button | undefined;
   private DISABLED_STATE = 'disabled';
   /**
    * Creates an instance of GaragePanel.
    *
    * @param {GaragePanelCallbacks} callbacks - Callbacks provided by the parent component (Garage).
+   * @param {string[]} brands - The car brands offered by the generate dialog.
    */
-  constructor(callbacks: GaragePanelCallbacks) {
+  constructor(callbacks: GaragePanelCallbacks, brands: string[]) {
     const options: Creator = {
       tag: 'div',
       classNames: [styles.garagePanel],
@@ -43,23 +68,130 @@ export default class GaragePanel extends View {
     super(options);
 
     this.callbacks = callbacks;
+    this.generateDialog = new GenerateDialog(brands, {
+      onSubmit: (options): void => {
+        void this.callbacks.onGenerate(options);
+      },
+    });
     this.createView();
   }
 
   /**
-   * Locks the race button before starting a race
+   * Enables the buttons that are allowed in the given race status:
+   * a race can only be started from an idle track, and a reset is
+   * possible at any time except while one is in progress.
+   * The race rules can only be changed on an idle track.
+   *
+   * @param {RaceStatus} status - The current race status
+   */
+  public updateRaceState(status: RaceStatus): void {
+    const raceButtons = [
+      this.raceButton,
+      this.grandRaceButton,
+      this.tournamentButton,
+      this.raceSelectedButton,
+    ];
+
+    for (const button of raceButtons) {
+      button
+        ?.getHTMLElement()
+        .toggleAttribute(this.DISABLED_STATE, status !== 'idle');
+    }
+
+    for (const input of this.ruleInputs) {
+      input.toggleAttribute(this.DISABLED_STATE, status !== 'idle');
+    }
+
+    this.resetButton
+      ?.getHTMLElement()
+      .toggleAttribute(this.DISABLED_STATE, status === 'resetting');
+  }
+
+  /**
+   * Shows whether the race clock is paused and its speed.
+   *
+   * @param {boolean} paused - Whether the clock is paused
+   * @param {number} speed - The playback speed, 1 being real time
+   */
+  public updateClockState(paused: boolean, speed: number): void {
+    if (this.pauseButton) {
+      this.pauseButton.getHTMLElement().textContent = paused
+        ? 'Resume'
+        : 'Pause';
+    }
+
+    if (this.speedSelect) {
+      this.speedSelect.value = String(speed);
+    }
+  }
+
+  /**
+   * Shows the selected cars in the tray, each with a button that removes it
+   * from the selection. The tray is hidden while no car is selected.
+   *
+   * @param {CarDataFromApi[]} cars - The selected cars in the order they were picked
+   */
+  public updateSelection(cars: CarDataFromApi[]): void {
+    this.selectionTray
+      ?.getElement()
+      .toggleAttribute('hidden', cars.length === 0);
+    this.selectionText?.setTextContent(
+      `Selected cars (${String(cars.length)}):`
+    );
+    this.selectionList?.getElement().replaceChildren(
+      ...cars.map((car) =>
+        new Button({
+          text: `${car.name} ✕`,
+          classNames: [styles.garagePanelChip],
+          attributes: { title: 'Remove from the selection' },
+          callback: (): void => {
+            this.callbacks.onDeselect(car.id);
+          },
+        }).getHTMLElement()
+      )
+    );
+  }
+
+  /**
+   * Shows the progress of a bulk generation and locks the generate button.
    *
+   * @param {BulkProgress} progress - The number of processed and failed cars
    */
-  public disabledRaceButton(): void {
-    this.raceButton?.getHTMLElement().setAttribute(this.DISABLED_STATE, '');
+  public updateGenerationProgress(progress: BulkProgress): void {
+    const { total, completed, failed } = progress;
+    const failedText = failed > 0 ? `, ${String(failed)} failed` : '';
+
+    this.generateButton?.getHTMLElement().setAttribute(this.DISABLED_STATE, '');
+    this.retryButton?.getHTMLElement().setAttribute('hidden', '');
+    this.generationStatus?.getElement().removeAttribute('hidden');
+    this.generationProgress?.setAttributes({
+      max: String(total),
+      value: String(completed),
+    });
+    this.generationText?.setTextContent(
+      `Generating cars: ${String(completed)}/${String(total)}${failedText}`
+    );
   }
 
   /**
-   * Unlocks the race button
+   * Shows the result of a bulk generation and offers to retry the failed cars.
    *
+   * @param {BulkProgress} progress - The final number of processed and failed cars
    */
-  public enabledRaceButton(): void {
-    this.raceButton?.getHTMLElement().removeAttribute(this.DISABLED_STATE);
+  public showGenerationSummary(progress: BulkProgress): void {
+    const { total, failed } = progress;
+    const created = total - failed;
+
+    this.generateButton?.getHTMLElement().removeAttribute(this.DISABLED_STATE);
+    this.generationText?.setTextContent(
+      failed > 0
+        ? `Created ${String(created)} of ${String(total)} cars, ${String(failed)} failed`
+        : `Created ${String(created)} cars`
+    );
+
+    if (failed > 0) {
+      this.retryButton?.getHTMLElement().removeAttribute('hidden');
+    }
   }
 
   /**
@@ -103,6 +235,44 @@ export default class GaragePanel extends View {
     this.element.addInnerElement(createForm.getHTMLElement());
     this.element.addInnerElement(this.updateForm.getHTMLElement());
     this.element.addInnerElement(controlButtons);
+    this.element.addInnerElement(this.createStartRules());
+    this.element.addInnerElement(this.createSelectionTray());
+    this.element.addInnerElement(this.createGenerationStatus());
+    this.element.addInnerElement(this.generateDialog.getHTMLElement());
+  }
+
+  /**
+   * Creates the hidden bulk generation status: progress bar, text and retry button.
+   *
+   * @private
+   * @return {HTMLElement} The root element of the generation status.
+   */
+  private createGenerationStatus(): HTMLElement {
+    this.generationStatus = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.garagePanelGeneration],
+      attributes: { hidden: '' },
+    });
+    this.generationProgress = new ElementCreator({
+      tag: 'progress',
+      classNames: [styles.garagePanelProgress],
+    });
+    this.generationText = new ElementCreator({
+      tag: 'span',
+      classNames: [],
+    });
+    this.retryButton = new Button({
+      text: 'Retry failed',
+      classNames: [styles.garagePanelButton, styles.garagePanelRetryButton],
+      attributes: { hidden: '' },
+      callback: (): void => void this.callbacks.onRetryGeneration(),
+    });
+
+    this.generationStatus.addInnerElement(this.generationProgress);
+    this.generationStatus.addInnerElement(this.generationText);
+    this.generationStatus.addInnerElement(this.retryButton.getHTMLElement());
+
+    return this.generationStatus.getElement();
   }
 
   /**
@@ -131,7 +301,7 @@ export default class GaragePanel extends View {
    * Creates the race control container.
    *
    * @private
-   * @return {HTMLElement} The root element of the control buttons: race, reset and generate 100 cars.
+   * @return {HTMLElement} The root element of the control buttons: race, grand race, tournament, pause, speed, reset, generate cars and import replay.
    */
   private createControlButtons(): HTMLElement {
     const containerOptions: Creator = {
@@ -148,24 +318,308 @@ export default class GaragePanel extends View {
     this.raceButton = new Button(raceButtonOptions);
     container.addInnerElement(this.raceButton.getHTMLElement());
 
-    const buttons = [
-      {
-        text: 'Reset',
-        classNames: [styles.garagePanelButton],
-        callback: this.callbacks.onReset,
+    for (const button of this.createRaceModeButtons()) {
+      container.addInnerElement(button.getHTMLElement());
+    }
+
+    for (const element of this.createClockControls()) {
+      container.addInnerElement(element);
+    }
+
+    this.resetButton = new Button({
+      text: 'Reset',
+      classNames: [styles.garagePanelButton],
+      callback: this.callbacks.onReset,
+    });
+
+    this.generateButton = new Button({
+      text: 'Generate Cars',
+      classNames: [styles.garagePanelButton],
+      callback: (): void => {
+        this.generateDialog.open();
       },
+    });
+
+    container.addInnerElement(this.resetButton.getHTMLElement());
+    container.addInnerElement(this.generateButton.getHTMLElement());
+    container.addInnerElement(this.createImportButton(container));
+
+    return container.getElement();
+  }
+
+  /**
+   * Creates the pause button and the speed select of the race clock.
+   *
+   * @private
+   * @return {HTMLElement[]} The pause button and the speed select.
+   */
+  private createClockControls(): HTMLElement[] {
+    this.pauseButton = new Button({
+      text: 'Pause',
+      classNames: [styles.garagePanelButton],
+      callback: this.callbacks.onTogglePause,
+    });
+
+    const select = new ElementCreator({
+      tag: 'select',
+      classNames: [styles.garagePanelButton],
+    });
+    const element = select.getElement();
+
+    if (element instanceof HTMLSelectElement) {
+      this.speedSelect = element;
+      element.replaceChildren(
+        ...RACE_SPEEDS.map(
+          (speed) => new Option(`${String(speed)}x`, String(speed))
+        )
+      );
+      element.value = '1';
+      element.addEventListener('change', () => {
+        this.callbacks.onSpeedChange(Number(element.value));
+      });
+    }
+
+    return [this.pauseButton.getHTMLElement(), element];
+  }
+
+  /**
+   * Creates the rules of the races: the number of laps, the countdown,
+   * the reaction start and the false-start penalty in seconds.
+   *
+   * @private
+   * @return {HTMLElement} The root element of the race rules.
+   */
+  private createStartRules(): HTMLElement {
+    const container = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.garagePanelStartRules],
+    });
+    const laps = this.createNumberField(
+      'Laps',
+      { min: '1', max: String(MAX_LAPS), step: '1', value: '1' },
+      (value) => {
+        const count = Math.min(Math.max(Math.round(value) || 1, 1), MAX_LAPS);
+
+        this.callbacks.onLapsChange(count);
+
+        return count;
+      }
+    );
+    const penalty = this.createNumberField(
+      'False-start penalty (s)',
       {
-        text: 'Generate Cars (100)',
-        classNames: [styles.garagePanelButton],
-        callback: this.callbacks.onGenerate,
+        min: '0',
+        step: '0.1',
+        value: String(this.startRules.falseStartPenalty / 1000),
       },
-    ];
+      (value) => {
+        const seconds = Math.max(value || 0, 0);
 
-    for (const button of buttons) {
-      const buttonElement: Button = new Button(button);
-      container.addInnerElement(buttonElement.getHTMLElement());
-    }
+        this.changeStartRules({
+          falseStartPenalty: Math.round(seconds * 1000),
+        });
+
+        return seconds;
+      }
+    );
+
+    container.addInnerElement(laps);
+    container.addInnerElement(
+      this.createRuleCheckbox('Countdown', 'countdown')
+    );
+    container.addInnerElement(
+      this.createRuleCheckbox('Reaction start', 'reactionStart')
+    );
+    container.addInnerElement(penalty);
 
     return container.getElement();
   }
+
+  /**
+   * Creates a labelled number input of a race rule.
+   *
+   * @private
+   * @param {string} text - The label of the input
+   * @param {Record<string, string>} attributes - The limits, step and initial value of the input
+   * @param {(value: number) => number} onChange - Applies the entered value and returns the value to show
+   * @return {ElementCreator} The labelled input.
+   */
+  private createNumberField(
+    text: string,
+    attributes: Record<string, string>,
+    onChange: (value: number) => number
+  ): ElementCreator {
+    const label = new ElementCreator({
+      tag: 'label',
+      classNames: [],
+      textContent: text,
+    });
+    const input = new ElementCreator({
+      tag: 'input',
+      classNames: [styles.garagePanelNumber],
+      attributes: { type: 'number', ...attributes },
+    });
+    const element = input.getElement();
+
+    if (element instanceof HTMLInputElement) {
+      this.ruleInputs.push(element);
+      element.addEventListener('change', () => {
+        element.value = String(onChange(element.valueAsNumber));
+      });
+    }
+
+    label.addInnerElement(input);
+
+    return label;
+  }
+
+  /**
+   * Creates the labelled checkbox of a start rule that can be switched on and off.
+   *
+   * @private
+   * @param {string} text - The label of the checkbox
+   * @param {('countdown' | 'reactionStart')} rule - The rule the checkbox switches
+   * @return {ElementCreator} The labelled checkbox.
+   */
+  private createRuleCheckbox(
+    text: string,
+    rule: 'countdown' | 'reactionStart'
+  ): ElementCreator {
+    const label = new ElementCreator({
+      tag: 'label',
+      classNames: [],
+      textContent: text,
+    });
+    const checkbox = new ElementCreator({
+      tag: 'input',
+      classNames: [],
+      attributes: { type: 'checkbox' },
+    });
+    const element = checkbox.getElement();
+
+    if (element instanceof HTMLInputElement) {
+      this.ruleInputs.push(element);
+      element.checked = this.startRules[rule];
+      element.addEventListener('change', () => {
+        this.changeStartRules({ [rule]: element.checked });
+      });
+    }
+
+    label.getElement().prepend(element);
+
+    return label;
+  }
+
+  /**
+   * Updates the start rules and passes them to the parent component.
+   *
+   * @private
+   * @param {Partial<RaceStartRules>} changes - The rules that changed
+   */
+  private changeStartRules(changes: Partial<RaceStartRules>): void {
+    this.startRules = { ...this.startRules, ...changes };
+    this.callbacks.onStartRulesChange(this.startRules);
+  }
+
+  /**
+   * Creates the hidden tray of the selected cars with the buttons
+   * to race them and to clear the selection.
+   *
+   * @private
+   * @return {HTMLElement} The root element of the selection tray.
+   */
+  private createSelectionTray(): HTMLElement {
+    this.selectionTray = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.garagePanelSelection],
+      attributes: { hidden: '' },
+    });
+    this.selectionText = new ElementCreator({ tag: 'span', classNames: [] });
+    this.selectionList = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.garagePanelSelectionList],
+    });
+    this.raceSelectedButton = new Button({
+      text: 'Race selected',
+      classNames: [styles.garagePanelButton, styles.garagePanelTrayButton],
+      callback: (): void => void this.callbacks.onRaceSelected(),
+    });
+
+    const clearButton = new Button({
+      text: 'Clear',
+      classNames: [styles.garagePanelButton, styles.garagePanelTrayButton],
+      callback: this.callbacks.onClearSelection,
+    });
+
+    this.selectionTray.addInnerElement(this.selectionText);
+    this.selectionTray.addInnerElement(this.selectionList);
+    this.selectionTray.addInnerElement(
+      this.raceSelectedButton.getHTMLElement()
+    );
+    this.selectionTray.addInnerElement(clearButton.getHTMLElement());
+
+    return this.selectionTray.getElement();
+  }
+
+  /**
+   * Creates the button that opens a race replay exported as a JSON file.
+   * The file input itself stays hidden.
+   *
+   * @private
+   * @param {ElementCreator} container - Receives the hidden file input
+   * @return {HTMLElement} The import button.
+   */
+  private createImportButton(container: ElementCreator): HTMLElement {
+    const input = new ElementCreator({
+      tag: 'input',
+      classNames: [],
+      attributes: { type: 'file', accept: 'application/json', hidden: '' },
+    });
+    const fileInput = input.getElement();
+
+    if (fileInput instanceof HTMLInputElement) {
+      fileInput.addEventListener('change', () => {
+        const [file] = fileInput.files ?? [];
+        fileInput.value = '';
+
+        if (file) {
+          void file.text().then(this.callbacks.onImportReplay);
+        }
+      });
+    }
+
+    const importButton: Button = new Button({
+      text: 'Import replay',
+      classNames: [styles.garagePanelButton],
+      callback: (): void => {
+        fileInput.click();
+      },
+    });
+
+    container.addInnerElement(input);
+
+    return importButton.getHTMLElement();
+  }
+
+  /**
+   * Creates the buttons of the race modes that go beyond the current page.
+   *
+   * @private
+   * @return {Button[]} The grand race and tournament buttons.
+   */
+  private createRaceModeButtons(): Button[] {
+    this.grandRaceButton = new Button({
+      text: 'Grand race',
+      classNames: [styles.garagePanelButton],
+      callback: (): void => void this.callbacks.onGrandRace(),
+    });
+
+    this.tournamentButton = new Button({
+      text: 'Tournament',
+      classNames: [styles.garagePanelButton],
+      callback: (): void => void this.callbacks.onTournament(),
+    });
+
+    return [this.grandRaceButton, this.tournamentButton];
+  }
 }
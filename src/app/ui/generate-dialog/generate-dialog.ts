@@ -0,0 +1,293 @@
+import styles from './generate-dialog.module.scss';
+
+import type {
+  ColorPalette,
+  Creator,
+  GenerateDialogCallbacks,
+} from '../../types/interfaces';
+import ElementCreator from '../../utils/element-creator';
+import Button from '../button/button';
+import View from '../view';
+
+interface PaletteOption {
+  value: ColorPalette;
+  text: string;
+}
+
+/**
+ * Modal dialog with the settings of bulk car generation:
+ * the number of cars, the brands to draw names from and the color palette.
+ *
+ * @export
+ * @class GenerateDialog
+ * @extends {View}
+ */
+export default class GenerateDialog extends View {
+  private readonly DEFAULT_COUNT = 100;
+  private readonly MAX_COUNT = 1000;
+  private callbacks: GenerateDialogCallbacks;
+  private countInput: HTMLInputElement | undefined;
+  private paletteSelect: HTMLSelectElement | undefined;
+  private brandInputs: HTMLInputElement[] = [];
+  private errorElement: ElementCreator | undefined;
+  private paletteOptions: PaletteOption[] = [
+    { value: 'any', text: 'Any color' },
+    { value: 'warm', text: 'Warm' },
+    { value: 'cool', text: 'Cool' },
+    { value: 'pastel', text: 'Pastel' },
+    { value: 'grayscale', text: 'Grayscale' },
+  ];
+
+  /**
+   * Creates an instance of GenerateDialog.
+   *
+   * @param {string[]} brands - The brands available in `cars.json`.
+   * @param {GenerateDialogCallbacks} callbacks - Callbacks provided by the parent component (GaragePanel).
+   */
+  constructor(brands: string[], callbacks: GenerateDialogCallbacks) {
+    const options: Creator = {
+      tag: 'dialog',
+      classNames: [styles.generateDialog],
+    };
+
+    super(options);
+
+    this.callbacks = callbacks;
+    this.createView(brands);
+  }
+
+  /**
+   * Opens the dialog as a modal.
+   *
+   */
+  public open(): void {
+    const dialog = this.getHTMLElement();
+
+    this.errorElement?.setTextContent('');
+
+    if (dialog instanceof HTMLDialogElement) {
+      dialog.showModal();
+    }
+  }
+
+  /**
+   * Closes the dialog.
+   *
+   */
+  public close(): void {
+    const dialog = this.getHTMLElement();
+
+    if (dialog instanceof HTMLDialogElement) {
+      dialog.close();
+    }
+  }
+
+  /**
+   * Creates the dialog content: inputs, error text and buttons.
+   *
+   * @private
+   * @param {string[]} brands - The brands available in `cars.json`.
+   */
+  private createView(brands: string[]): void {
+    const title = new ElementCreator({
+      tag: 'h2',
+      classNames: [styles.generateDialogTitle],
+      textContent: 'Generate cars',
+    });
+
+    this.errorElement = new ElementCreator({
+      tag: 'p',
+      classNames: [styles.generateDialogError],
+    });
+
+    this.element.addInnerElement(title);
+    this.element.addInnerElement(this.createCountField());
+    this.element.addInnerElement(this.createBrandsField(brands));
+    this.element.addInnerElement(this.createPaletteField());
+    this.element.addInnerElement(this.errorElement);
+    this.element.addInnerElement(this.createButtons());
+  }
+
+  /**
+   * Creates the number input for the count of cars.
+   *
+   * @private
+   * @return {ElementCreator} The labelled input.
+   */
+  private createCountField(): ElementCreator {
+    const label = new ElementCreator({
+      tag: 'label',
+      classNames: [styles.generateDialogField],
+      textContent: 'Number of cars',
+    });
+    const input = new ElementCreator({
+      tag: 'input',
+      classNames: [styles.generateDialogInput],
+      attributes: {
+        type: 'number',
+        min: '1',
+        max: String(this.MAX_COUNT),
+        value: String(this.DEFAULT_COUNT),
+      },
+    });
+    const element = input.getElement();
+
+    if (element instanceof HTMLInputElement) {
+      this.countInput = element;
+    }
+
+    label.addInnerElement(input);
+
+    return label;
+  }
+
+  /**
+   * Creates a checkbox for every brand, all checked by default.
+   *
+   * @private
+   * @param {string[]} brands - The brands available in `cars.json`.
+   * @return {ElementCreator} The brands fieldset.
+   */
+  private createBrandsField(brands: string[]): ElementCreator {
+    const fieldset = new ElementCreator({
+      tag: 'fieldset',
+      classNames: [styles.generateDialogBrands],
+    });
+
+    fieldset.addInnerElement(
+      new ElementCreator({
+        tag: 'legend',
+        classNames: [],
+        textContent: 'Brands',
+      })
+    );
+
+    for (const brand of brands) {
+      const label = new ElementCreator({
+        tag: 'label',
+        classNames: [styles.generateDialogBrand],
+        textContent: brand,
+      });
+      const checkbox = new ElementCreator({
+        tag: 'input',
+        classNames: [],
+        attributes: { type: 'checkbox', value: brand, checked: '' },
+      });
+      const element = checkbox.getElement();
+
+      if (element instanceof HTMLInputElement) {
+        this.brandInputs.push(element);
+      }
+
+      label.getElement().prepend(element);
+      fieldset.addInnerElement(label);
+    }
+
+    return fieldset;
+  }
+
+  /**
+   * Creates the palette select.
+   *
+   * @private
+   * @return {ElementCreator} The labelled select.
+   */
+  private createPaletteField(): ElementCreator {
+    const label = new ElementCreator({
+      tag: 'label',
+      classNames: [styles.generateDialogField],
+      textContent: 'Palette',
+    });
+    const select = new ElementCreator({
+      tag: 'select',
+      classNames: [styles.generateDialogInput],
+    });
+
+    for (const palette of this.paletteOptions) {
+      select.addInnerElement(
+        new ElementCreator({
+          tag: 'option',
+          classNames: [],
+          textContent: palette.text,
+          attributes: { value: palette.value },
+        })
+      );
+    }
+
+    const element = select.getElement();
+
+    if (element instanceof HTMLSelectElement) {
+      this.paletteSelect = element;
+    }
+
+    label.addInnerElement(select);
+
+    return label;
+  }
+
+  /**
+   * Creates the Generate and Cancel buttons.
+   *
+   * @private
+   * @return {ElementCreator} The buttons container.
+   */
+  private createButtons(): ElementCreator {
+    const container = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.generateDialogButtons],
+    });
+    const generateButton = new Button({
+      text: 'Generate',
+      classNames: [styles.generateDialogButton],
+      callback: (): void => {
+        this.handleSubmit();
+      },
+    });
+    const cancelButton = new Button({
+      text: 'Cancel',
+      classNames: [styles.generateDialogButton],
+      callback: (): void => {
+        this.close();
+      },
+    });
+
+    container.addInnerElement(generateButton.getHTMLElement());
+    container.addInnerElement(cancelButton.getHTMLElement());
+
+    return container;
+  }
+
+  /**
+   * Validates the inputs and passes the options to the parent component.
+   *
+   * @private
+   */
+  private handleSubmit(): void {
+    const count = Number(this.countInput?.value);
+    const brands = this.brandInputs
+      .filter((input) => input.checked)
+      .map((input) => input.value);
+    const palette = this.paletteOptions.find(
+      (option) => option.value === this.paletteSelect?.value
+    );
+
+    if (!Number.isInteger(count) || count < 1 || count > this.MAX_COUNT) {
+      this.errorElement?.setTextContent(
+        `Enter a number from 1 to ${String(this.MAX_COUNT)}`
+      );
+      return;
+    }
+
+    if (brands.length === 0) {
+      this.errorElement?.setTextContent('Choose at least one brand');
+      return;
+    }
+
+    this.close();
+    this.callbacks.onSubmit({
+      count,
+      brands,
+      palette: palette?.value ?? 'any',
+    });
+  }
+}
@@ -6,6 +6,7 @@ import type {
   GeneratorOptions,
 } from '../../types/interfaces';
 import ElementCreator from '../../utils/element-creator';
+import { toLongHexColor } from '../../utils/utilities';
 import Button from '../button/button';
 import View from '../view';
 
@@ -58,7 +59,7 @@ export default class Generator extends View {
     }
 
     if (this.colorInput instanceof HTMLInputElement) {
-      this.colorInput.value = color;
+      this.colorInput.value = toLongHexColor(color);
     }
   }
 
@@ -8,7 +8,10 @@ import ElementCreator from '../../utils/element-creator';
 import Button from '../button/button';
 import type Main from '../main/main';
 import type Garage from '../pages/garage/garage';
+import type History from '../pages/history/history';
 import type Winner from '../pages/winner/winner';
+import type PendingChanges from '../pending-changes/pending-changes';
+import type Settings from '../settings/settings';
 import View from '../view';
 
 /**
@@ -22,10 +25,16 @@ import View from '../view';
 enum Pages {
   GARAGE = 'Garage',
   WINNER = 'Winner',
+  HISTORY = 'History',
 }
 interface PageOptions {
   name: string;
-  callback: (event: Event) => void;
+  view: View;
+}
+interface PageViews {
+  garageView: Garage;
+  winnerView: Winner;
+  historyView: History;
 }
 
 export default class Header extends View {
@@ -34,8 +43,18 @@ export default class Header extends View {
    * @param {Main} mainComponent - The main application container responsible for displaying page content
    * @param {Garage} garageView - The instance of Garage class
    * @param {Winner} winnerView - The instance of Winner class
+   * @param {History} historyView - The instance of History class
+   * @param {Settings} settingsView - The instance of Settings class
+   * @param {PendingChanges} pendingChangesView - The instance of PendingChanges class
    */
-  constructor(mainComponent: Main, garageView: Garage, winnerView: Winner) {
+  constructor(
+    mainComponent: Main,
+    garageView: Garage,
+    winnerView: Winner,
+    historyView: History,
+    settingsView: Settings,
+    pendingChangesView: PendingChanges
+  ) {
     const parameters: Creator = {
       tag: 'header',
       classNames: [styles.header],
@@ -43,7 +62,9 @@ export default class Header extends View {
 
     super(parameters);
 
-    this.createView(mainComponent, garageView, winnerView);
+    this.createView(mainComponent, garageView, winnerView, historyView);
+    this.element.addInnerElement(pendingChangesView.getHTMLElement());
+    this.element.addInnerElement(settingsView.getHTMLElement());
   }
 
   /**
@@ -54,18 +75,19 @@ export default class Header extends View {
    * @param {Main} mainComponent - The main application container responsible for displaying page content
    * @param {Garage} garageView - The instance of Garage class
    * @param {Winner} winnerView - The instance of Winner class
+   * @param {History} historyView - The instance of History class
    */
   private createView(
     mainComponent: Main,
     garageView: Garage,
-    winnerView: Winner
+    winnerView: Winner,
+    historyView: History
   ): void {
     const navigationElement: ElementCreator = this.createNavigationElement();
 
     this.createNavigationButtons(
       mainComponent,
-      garageView,
-      winnerView,
+      { garageView, winnerView, historyView },
       navigationElement
     );
   }
@@ -90,33 +112,23 @@ export default class Header extends View {
   }
 
   /**
-   * Creates the navigation buttons for switching pages Garage and Winner.
+   * Creates the navigation buttons for switching pages Garage, Winner and History.
    *
    * @private
    * @param {Main} mainComponent - The main application container responsible for displaying page content
-   * @param {Garage} garageView - The instance of Garage class
-   * @param {Winner} winnerView - The instance of Winner class
+   * @param {PageViews} views - The instances of the page classes
    * @param {ElementCreator} navigationElement - The navigation element.
    */
   private createNavigationButtons(
     mainComponent: Main,
-    garageView: Garage,
-    winnerView: Winner,
+    views: PageViews,
     navigationElement: ElementCreator
   ): void {
+    const { garageView, winnerView, historyView } = views;
     const pages: PageOptions[] = [
-      {
-        name: Pages.GARAGE,
-        callback: (event: Event): void => {
-          this.setContent(event, garageView, mainComponent);
-        },
-      },
-      {
-        name: Pages.WINNER,
-        callback: (event: Event): void => {
-          this.setContent(event, winnerView, mainComponent);
-        },
-      },
+      { name: Pages.GARAGE, view: garageView },
+      { name: Pages.WINNER, view: winnerView },
+      { name: Pages.HISTORY, view: historyView },
     ];
 
     for (const page of pages) {
@@ -126,7 +138,13 @@ export default class Header extends View {
         attributes: {
           'data-id': page.name.toLowerCase(),
         },
-        callback: page.callback,
+        callback: (event: Event): void => {
+          if (page.view !== garageView) {
+            garageView.cancelRace();
+          }
+
+          this.setContent(event, page.view, mainComponent);
+        },
       };
 
       const button: Button = new Button(parameters);
@@ -1,26 +1,67 @@
 import styles from './garage.module.scss';
 import carsData from '../../../data/cars.json';
 import * as utilities from '../../../utils/utilities';
+import { runBulk } from '../../../utils/bulk-runner';
+import { fetchAllCars, splitIntoHeats } from '../../../race/grand-race';
+import { buildRaceResult, getRaceWinners } from '../../../race/race-results';
+import { toRaceSummary } from '../../../race/race-history';
+import { getReplayResult, parseReplay } from '../../../race/race-replay';
+import RaceRecorder from '../../../race/race-recorder';
+import RaceClock from '../../../race/race-clock';
+import RaceSupervisor from '../../../race/race-supervisor';
+import RaceStateMachine from '../../../race/race-state-machine';
+import {
+  addReactionDelay,
+  COUNTDOWN_LIGHTS,
+  COUNTDOWN_STEP,
+  DEFAULT_START_RULES,
+  drawReaction,
+} from '../../../race/race-start';
+import type PredictionWallet from '../../../race/prediction-wallet';
+import { computeOdds } from '../../../race/prediction-wallet';
 
 import type {
+  Backend,
   CarAnimationOptions,
   CarCallbacks,
   CarDataFromApi,
   CarInformation,
+  CarReaction,
   Creator,
+  DriveOutcome,
   Engine,
+  EventMeta,
   GaragePanelCallbacks,
+  GenerationOptions,
   PaginationCallbacks,
+  CarRaceOutcome,
+  Prediction,
+  RaceParticipant,
+  RaceReplay,
+  RaceResultEntry,
+  RaceStartRules,
+  RaceStatus,
+  ReplayEvent,
   WinnerInformationFromApi,
   WinnerResponse,
 } from '../../../types/interfaces';
 import GaragePanel from '../../garage-panel/garage-panel';
 import Page from '../page';
-import type APIService from '../../../api/api-service';
 import Car from '../../car/car';
 import ElementCreator from '../../../utils/element-creator';
-import type Winner from '../winner/winner';
+import type { AppEventBus, AppStore } from '../../../state/app-state';
 import Pagination from '../../pagination/pagination';
+import RaceResults from '../../race-results/race-results';
+import StartLights from '../../start-lights/start-lights';
+import PredictionPanel from '../../prediction-panel/prediction-panel';
+import TournamentBracket from '../../tournament-bracket/tournament-bracket';
+import TournamentDialog from '../../tournament-dialog/tournament-dialog';
+import type Tournament from '../../../race/tournament';
+import {
+  EngineBrokenError,
+  OrphanedWinnerError,
+  TooManyRequestsError,
+} from '../../../api/errors';
 
 /**
  * Implements the main Garage screen, managing car display, creation, updates, and race controls.
@@ -30,10 +71,9 @@ import Pagination from '../../pagination/pagination';
  * @extends {Page}
  */
 export default class Garage extends Page {
-  private apiService: APIService;
+  private apiService: Backend;
   private readonly CAR_PER_PAGE: number = 7;
   private currentPage = 1;
-  private cars: CarDataFromApi[] = [];
   private totalCount = 0;
   private carArea: ElementCreator | undefined;
   private currentID: number | undefined = undefined;
@@ -44,17 +84,44 @@ export default class Garage extends Page {
   private carInstances = new Map<number, Car>();
   private START_STATE = 'start';
   private messageElement!: ElementCreator;
-  private currentWinnerId: number | undefined = undefined;
-  private winnerData: { car: CarDataFromApi; time: number } | undefined =
-    undefined;
-  private winnerView: Winner;
+  private store: AppStore;
+  private events: AppEventBus;
   private pagination: Pagination | undefined;
+  private requestControllers = new Map<number, AbortController>();
+  private hasStaleCars = false;
+  private readonly GENERATION_CONCURRENCY = 5;
+  private failedGenerations: CarInformation[] = [];
+  private raceController: AbortController | undefined;
+  private readonly HEAT_PAUSE = 1500;
+  private readonly START_TIMEOUT = 10000;
+  private readonly DRIVE_GRACE = 5000;
+  private tournament: Tournament;
+  private tournamentBracket: TournamentBracket | undefined;
+  private tournamentDialog: TournamentDialog | undefined;
+  private raceResults: RaceResults | undefined;
+  private isReplaying = false;
+  private clock = new RaceClock();
+  private raceState: RaceStateMachine;
+  private startRules: RaceStartRules = { ...DEFAULT_START_RULES };
+  private laps = 1;
+  private startLights = new StartLights();
+  private wallet: PredictionWallet;
+  private predictionPanel = new PredictionPanel();
   /**
    * Creates an instance of Garage.
-   * @param {APIService} api - The instance of APIService for data fetching
-   *
+   * @param {Backend} api - The backend used for data fetching
+   * @param {AppStore} store - The shared application state
+   * @param {AppEventBus} events - The shared application event bus
+   * @param {Tournament} tournament - The persisted tournament bracket
+   * @param {PredictionWallet} wallet - The persisted wallet of the prediction game
    */
-  constructor(api: APIService, winnerView: Winner) {
+  constructor(
+    api: Backend,
+    store: AppStore,
+    events: AppEventBus,
+    tournament: Tournament,
+    wallet: PredictionWallet
+  ) {
     const options: Creator = {
       tag: 'div',
       classNames: [styles.garage],
@@ -68,13 +135,204 @@ export default class Garage extends Page {
     super(pageName, options);
 
     this.apiService = api;
-    this.winnerView = winnerView;
+    this.store = store;
+    this.events = events;
+    this.tournament = tournament;
+    this.wallet = wallet;
     this.carsData = carsData;
+    this.raceState = new RaceStateMachine(store);
     this.createPageView();
+    this.subscribeToEvents();
+    this.raceState.subscribe((status) => {
+      this.applyRaceState(status);
+    });
+    this.clock.subscribe(() => {
+      this.garagePanel?.updateClockState(this.clock.isPaused, this.clock.speed);
+    });
 
     this.loadInitialData();
   }
 
+  /**
+   * Resets the race and cancels all outstanding engine requests.
+   * Called when the user leaves the Garage view.
+   *
+   */
+  public cancelRace(): void {
+    this.handleReset();
+  }
+
+  /**
+   * Reloads the cars when pending changes were synced by the backend
+   * or when cars were changed in another tab, and shows races finished there.
+   *
+   * @private
+   */
+  private subscribeToEvents(): void {
+    const refreshOnRemote = (_payload: unknown, meta: EventMeta): void => {
+      if (meta.remote) {
+        this.refreshWhenIdle();
+      }
+    };
+
+    this.events.on('changesSynced', () => {
+      this.refreshWhenIdle();
+    });
+    this.events.on('carCreated', refreshOnRemote);
+    this.events.on('carsGenerated', refreshOnRemote);
+    this.events.on('carDeleted', refreshOnRemote);
+    this.events.on('carUpdated', ({ id }, meta) => {
+      const isOnPage = this.store.getState().cars.some((car) => car.id === id);
+
+      if (meta.remote && isOnPage) {
+        this.refreshWhenIdle();
+      }
+    });
+    this.events.on('raceFinished', ({ name, time }, meta) => {
+      if (meta.remote && this.raceState.status === 'idle') {
+        this.showMessage(`${name} wins in ${String(time)}s in another tab`);
+      }
+    });
+    this.subscribeToSelection();
+  }
+
+  /**
+   * Keeps the selected cars in line with the garage: a deleted car
+   * leaves the selection and an updated car keeps its new name and color.
+   *
+   * @private
+   */
+  private subscribeToSelection(): void {
+    this.events.on('carDeleted', ({ id }) => {
+      this.handleDeselect(id);
+    });
+    this.events.on('carUpdated', ({ id, car }) => {
+      const { selectedCars } = this.store.getState();
+
+      if (selectedCars.some((selected) => selected.id === id)) {
+        this.setSelection(
+          selectedCars.map((selected) =>
+            selected.id === id ? { ...car, id } : selected
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * Stores the selected cars and shows them in the tray and on the track.
+   *
+   * @private
+   * @param {CarDataFromApi[]} cars - The selected cars in the order they were picked
+   */
+  private setSelection(cars: CarDataFromApi[]): void {
+    this.store.setState({ selectedCars: cars });
+    this.garagePanel?.updateSelection(cars);
+
+    for (const [carId, car] of this.carInstances) {
+      car.setSelected(cars.some((selected) => selected.id === carId));
+    }
+  }
+
+  /**
+   * Adds a car to the selection or removes it.
+   *
+   * @private
+   * @param {CarDataFromApi} data - The car whose checkbox was switched
+   * @param {boolean} selected - Whether the car is now selected
+   */
+  private handleToggleSelection(data: CarDataFromApi, selected: boolean): void {
+    const others = this.store
+      .getState()
+      .selectedCars.filter((car) => car.id !== data.id);
+
+    this.setSelection(selected ? [...others, data] : others);
+  }
+
+  /**
+   * Removes a car from the selection, if it is selected.
+   *
+   * @private
+   * @param {number} id - The ID of the car
+   */
+  private handleDeselect(id: number): void {
+    const { selectedCars } = this.store.getState();
+
+    if (selectedCars.some((car) => car.id === id)) {
+      this.setSelection(selectedCars.filter((car) => car.id !== id));
+    }
+  }
+
+  /**
+   * Reloads the current page, or postpones it until the race is reset
+   * so the cars are not re-rendered mid-race.
+   *
+   * @private
+   */
+  private refreshWhenIdle(): void {
+    if (this.raceState.status === 'idle') {
+      this.reloadCars();
+    } else {
+      this.hasStaleCars = true;
+    }
+  }
+
+  /**
+   * Reloads the current page in the background, e.g. after a change
+   * in another tab, and shows a message if the cars cannot be loaded.
+   *
+   * @private
+   */
+  private reloadCars(): void {
+    this.loadCars(this.currentPage).catch(() => {
+      this.showMessage('The cars could not be reloaded');
+    });
+  }
+
+  /**
+   * Enables the controls that are allowed in the given race status:
+   * nothing can start while a race is running, the page cannot change
+   * while cars are starting or driving, and the car buttons stay locked
+   * until the track is reset.
+   *
+   * @private
+   * @param {RaceStatus} status - The current race status
+   */
+  private applyRaceState(status: RaceStatus): void {
+    const isRunning = status === 'preparing' || status === 'racing';
+
+    this.garagePanel?.updateRaceState(status);
+    this.pagination?.setLocked(isRunning);
+    this.tournamentBracket?.setBusy(isRunning);
+    this.predictionPanel.setLocked(status !== 'idle');
+
+    if (status === 'idle') {
+      void this.updatePredictionOdds();
+    }
+
+    for (const car of this.carInstances.values()) {
+      car.setRaceLocked(status !== 'idle');
+    }
+  }
+
+  /**
+   * Starts preparing a new race, unless the track is not idle.
+   *
+   * @private
+   * @return {(AbortController | undefined)} The controller that cancels the race on reset,
+   * or `undefined` if no race can start now.
+   */
+  private beginRace(): AbortController | undefined {
+    if (!this.raceState.transition('preparing')) {
+      return undefined;
+    }
+
+    const controller = new AbortController();
+    this.raceController = controller;
+
+    return controller;
+  }
+
   /**
    * Creates the content for the Garage page
    *
@@ -82,21 +340,26 @@ export default class Garage extends Page {
    */
   private createPageView(): void {
     this.createControlPanel();
+    this.createPredictionPanel();
+    this.createTournamentView();
     this.createHeader();
     this.createPageText(this.currentPage);
     this.createCarsArea();
     this.createPagination();
     this.createMessage();
+    this.createRaceResults();
   }
 
   /**
-   * Loads initial car data when the component is initialized.
+   * Loads initial car data when the component is initialized
+   * and credits a tournament champion whose win was not saved before a reload.
    * Intentionally does not await the result here.
    *
    * @private
    */
   private loadInitialData(): void {
     void this.loadCars();
+    void this.creditChampion();
   }
 
   /**
@@ -114,13 +377,18 @@ export default class Garage extends Page {
         this.CAR_PER_PAGE
       );
 
-      this.cars = items;
       this.totalCount = totalCount;
       this.currentPage = page;
       this.maxPages = Math.ceil(this.totalCount / this.CAR_PER_PAGE);
+      this.store.setState({
+        cars: items,
+        carsTotal: totalCount,
+        garagePage: page,
+      });
 
       this.renderCars();
       this.updateHeaderFields(this.totalCount, this.currentPage);
+      void this.updatePredictionOdds();
 
       this.pagination?.updatePaginationState(this.currentPage, this.totalCount);
     } catch {
@@ -149,6 +417,19 @@ export default class Garage extends Page {
     this.element.addInnerElement(this.messageElement.getElement());
   }
 
+  /**
+   * Creates the race results panel and adds it to the page
+   *
+   * @private
+   */
+  private createRaceResults(): void {
+    this.raceResults = new RaceResults({
+      onReplay: (replay, speed): void => void this.playReplay(replay, speed),
+    });
+
+    this.element.addInnerElement(this.raceResults.getHTMLElement());
+  }
+
   /**
    * Shows the winner message container with the provided text
    *
@@ -172,17 +453,8 @@ export default class Garage extends Page {
   }
 
   /**
-   * Resets the winner ID and winner data object to undefined
-   *
-   * @private
-   */
-  private resetWinnerData(): void {
-    this.currentWinnerId = undefined;
-    this.winnerData = undefined;
-  }
-
-  /**
-   * Creates the main container element where individual car components will be rendered.
+   * Creates the main container element where individual car components will be rendered,
+   * with the start lights overlaid on it.
    *
    * @private
    */
@@ -193,9 +465,15 @@ export default class Garage extends Page {
       tag: 'div',
       classNames: [styles.garageCarArea],
     };
+    const track = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.garageTrack],
+    });
 
     this.carArea = new ElementCreator(areaOptions);
-    this.element.addInnerElement(this.carArea.getElement());
+    track.addInnerElement(this.carArea.getElement());
+    track.addInnerElement(this.startLights.getHTMLElement());
+    this.element.addInnerElement(track.getElement());
   }
 
   /**
@@ -235,216 +513,1406 @@ export default class Garage extends Page {
   }
 
   /**
-   * Navigates to the previous page of cars if not already on the first page.
+   * Navigates to the previous page of cars if not already on the first page.
+   *
+   * @private
+   */
+  private goToPrevPage(): void {
+    this.handleReset();
+
+    if (this.currentPage <= 1) {
+      return;
+    }
+    this.currentPage -= 1;
+
+    void this.loadCars();
+  }
+
+  /**
+   * Renders a list of cars into the car area container
+   *
+   * @private
+   * @param {CarDataFromApi[]} [cars] - The cars to render. Defaults to the cars of the current page.
+   */
+  private renderCars(cars = this.store.getState().cars): void {
+    this.carInstances.clear();
+
+    while (this.carArea?.getElement().firstElementChild) {
+      this.carArea.getElement().firstElementChild?.remove();
+    }
+
+    const callbacks: CarCallbacks = {
+      onSelect: this.handleSelectCar.bind(this),
+      onDelete: this.handleDeleteCar.bind(this),
+      onStart: this.handleStartCar.bind(this),
+      onStop: this.handleStopCar.bind(this),
+      onToggleSelection: this.handleToggleSelection.bind(this),
+    };
+    const { selectedCars } = this.store.getState();
+
+    for (const car of cars) {
+      const carElement: Car = new Car(car, callbacks);
+      carElement.setRaceLocked(this.raceState.status !== 'idle');
+      carElement.setSelected(
+        selectedCars.some((selected) => selected.id === car.id)
+      );
+      if (this.carArea === undefined) {
+        this.createCarsArea();
+      } else {
+        this.carInstances.set(car.id, carElement);
+        this.carArea.addInnerElement(carElement.getHTMLElement());
+      }
+    }
+  }
+
+  /**
+   * Creates the main control panel containing forms and action buttons.
+   *
+   */
+  private createControlPanel(): void {
+    const panelCallbacks: GaragePanelCallbacks = {
+      onCreate: this.handleCreateCar.bind(this),
+      onUpdate: this.handleUpdateCar.bind(this),
+      onRace: this.handleRace.bind(this),
+      onGrandRace: this.handleGrandRace.bind(this),
+      onTournament: this.handleTournament.bind(this),
+      onReset: this.handleReset.bind(this),
+      onGenerate: this.handleGenerateCars.bind(this),
+      onRetryGeneration: this.handleRetryGeneration.bind(this),
+      onImportReplay: this.handleImportReplay.bind(this),
+      onTogglePause: this.handleTogglePause.bind(this),
+      onSpeedChange: (speed): void => {
+        this.clock.setSpeed(speed);
+      },
+      onStartRulesChange: (rules): void => {
+        this.startRules = rules;
+      },
+      onLapsChange: (laps): void => {
+        this.laps = laps;
+      },
+      onRaceSelected: this.handleRaceSelected.bind(this),
+      onDeselect: this.handleDeselect.bind(this),
+      onClearSelection: (): void => {
+        this.setSelection([]);
+      },
+    };
+
+    this.garagePanel = new GaragePanel(
+      panelCallbacks,
+      Object.keys(this.carsData)
+    );
+
+    this.element.addInnerElement(this.garagePanel.getHTMLElement());
+  }
+
+  /**
+   * Creates the panel of the prediction game and adds it to the page.
+   *
+   * @private
+   */
+  private createPredictionPanel(): void {
+    this.updateWallet();
+    this.element.addInnerElement(this.predictionPanel.getHTMLElement());
+  }
+
+  /**
+   * Offers the cars of the current page for a prediction. The odds are
+   * derived from the wins of each car in the winners table, loaded in one
+   * request; a car without a winner record has no wins. If the winners
+   * cannot be loaded, no prediction is offered.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async updatePredictionOdds(): Promise<void> {
+    const { cars } = this.store.getState();
+    let winners: WinnerInformationFromApi[];
+
+    try {
+      winners = await this.apiService.getWinnersByIds(
+        cars.map((car) => car.id)
+      );
+    } catch {
+      this.predictionPanel.setCars([], new Map());
+      this.predictionPanel.showOutcome('The odds could not be loaded');
+      return;
+    }
+
+    if (cars !== this.store.getState().cars) {
+      return;
+    }
+
+    const winsById = new Map(winners.map(({ id, wins }) => [id, wins]));
+    const wins = new Map(
+      cars.map((car) => [car.id, winsById.get(car.id) ?? 0])
+    );
+
+    this.predictionPanel.setCars(cars, computeOdds(wins));
+  }
+
+  /**
+   * Shows the balance and the accuracy of the prediction game.
+   *
+   * @private
+   */
+  private updateWallet(): void {
+    this.predictionPanel.updateWallet(
+      this.wallet.balance,
+      this.wallet.accuracy,
+      this.wallet.predictions
+    );
+  }
+
+  /**
+   * Scores the prediction of a race against its winners and shows how it turned out.
+   *
+   * @private
+   * @param {Prediction} prediction - The predicted winner with stake and odds
+   * @param {RaceResultEntry[]} result - The results of all cars in finishing order
+   */
+  private scorePrediction(
+    prediction: Prediction,
+    result: RaceResultEntry[]
+  ): void {
+    const winnerIds = getRaceWinners(result).map(({ car }) => car.id);
+    const payout = this.wallet.settle(prediction, winnerIds);
+    const name =
+      result.find(({ car }) => car.id === prediction.carId)?.car.name ?? '';
+
+    this.predictionPanel.showOutcome(
+      winnerIds.includes(prediction.carId)
+        ? `${name} won. You receive ${String(payout)} coins`
+        : `${name} did not win. You lose ${String(prediction.stake)} coins`
+    );
+    this.updateWallet();
+  }
+
+  /**
+   * Handles creating a new car. Sends the created car information to the Server API
+   *
+   * @private
+   * @param {CarInformation} carInformation - An object with car information
+   * @throws {Error} Throws an error if the HTTP request failed
+   */
+  private async handleCreateCar(carInformation: CarInformation): Promise<void> {
+    try {
+      await this.apiService.createCar(carInformation);
+      this.events.emit('carCreated', { car: carInformation });
+      await this.loadCars(this.currentPage);
+    } catch {
+      throw new Error('Failed to create car');
+    }
+  }
+
+  /**
+   * Handles updating an existing car. Sends the updated car information to the Server API.
+   *
+   * @private
+   * @param {CarInformation} carInformation - An object with car information
+   */
+  private async handleUpdateCar(carInformation: CarInformation): Promise<void> {
+    try {
+      if (!this.currentID) {
+        return;
+      }
+
+      if (this.garagePanel) {
+        this.garagePanel.disabledUpdatePanel();
+      }
+
+      await this.apiService.updateCar(this.currentID, carInformation);
+      this.events.emit('carUpdated', {
+        id: this.currentID,
+        car: carInformation,
+      });
+      await this.loadCars(this.currentPage);
+    } catch {
+      throw new Error('Failed to create car');
+    }
+  }
+
+  /**
+   * Initiates the race for all cars currently displayed on the page
+   * and shows the complete result once every car has finished or broken down.
+   * The winner is decided by the finish times, not by the animation.
+   * A prediction made before the start is scored once the race is over.
+   *
+   * @private
+   */
+  private async handleRace(): Promise<void> {
+    const carIds = [...this.carInstances.keys()];
+    const prediction = this.predictionPanel.getPrediction();
+
+    if (carIds.length === 0) {
+      throw new Error('No cars on the page to start race.');
+    }
+
+    if (prediction && prediction.stake > this.wallet.balance) {
+      this.showMessage(
+        `Your stake is too high: the wallet holds ${String(this.wallet.balance)} coins`
+      );
+      return;
+    }
+
+    const controller = this.beginRace();
+
+    if (!controller) {
+      return;
+    }
+
+    this.hideMessage();
+    this.raceResults?.hide();
+
+    const cars = this.store.getState().cars;
+    const recorder = new RaceRecorder('Race', cars, this.clock, this.laps);
+    this.events.emit('raceStarted', { carIds });
+
+    const outcomes = await this.runHeat(carIds, controller.signal, recorder);
+
+    if (!controller.signal.aborted) {
+      const result = buildRaceResult(this.toParticipants(cars, outcomes));
+
+      this.raceState.transition('finished');
+      this.raceResults?.show('Race results', result, recorder.getReplay());
+      this.events.emit('raceCompleted', toRaceSummary('Race', result));
+      this.creditWinners(result);
+
+      if (prediction) {
+        this.scorePrediction(prediction, result);
+      }
+    }
+  }
+
+  /**
+   * Races the selected cars, wherever they are in the garage, on a temporary
+   * track with just those cars. The race runs like a regular race and
+   * the track returns to the current page on reset.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async handleRaceSelected(): Promise<void> {
+    const cars = this.store.getState().selectedCars;
+
+    if (cars.length === 0) {
+      return;
+    }
+
+    this.handleReset();
+
+    const controller = this.beginRace();
+
+    if (!controller) {
+      return;
+    }
+
+    const carIds = cars.map((car) => car.id);
+    const recorder = new RaceRecorder(
+      'Selected cars',
+      cars,
+      this.clock,
+      this.laps
+    );
+    this.hasStaleCars = true;
+    this.renderCars(cars);
+    this.showRaceText(`Selected cars: ${String(cars.length)}`);
+    this.events.emit('raceStarted', { carIds });
+
+    const outcomes = await this.runHeat(carIds, controller.signal, recorder);
+
+    if (!controller.signal.aborted) {
+      const result = buildRaceResult(this.toParticipants(cars, outcomes));
+
+      this.raceState.transition('finished');
+      this.raceResults?.show(
+        'Selected cars results',
+        result,
+        recorder.getReplay()
+      );
+      this.events.emit('raceCompleted', toRaceSummary('Selected cars', result));
+      this.creditWinners(result);
+    }
+  }
+
+  /**
+   * Races every car of the garage, not just the current page.
+   * The cars are loaded page by page and race in heats of one page each;
+   * the overall ranking is made by the measured finish times.
+   * If the cars cannot be loaded, the garage is reset so the panel is usable again.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async handleGrandRace(): Promise<void> {
+    this.handleReset();
+
+    const controller = this.beginRace();
+
+    if (!controller) {
+      return;
+    }
+
+    this.hasStaleCars = true;
+
+    try {
+      const cars = await fetchAllCars(
+        this.apiService,
+        this.CAR_PER_PAGE,
+        controller.signal
+      );
+      const heats = splitIntoHeats(cars, this.CAR_PER_PAGE);
+      const participants: RaceParticipant[] = [];
+
+      this.events.emit('raceStarted', { carIds: cars.map((car) => car.id) });
+
+      for (const [index, heat] of heats.entries()) {
+        controller.signal.throwIfAborted();
+        this.renderCars(heat);
+        this.showRaceText(
+          `Grand race: heat ${String(index + 1)} of ${String(heats.length)}`
+        );
+        participants.push(
+          ...(await this.runGrandRaceHeat(heat, controller.signal))
+        );
+      }
+
+      this.finishGrandRace(buildRaceResult(participants));
+    } catch {
+      if (!controller.signal.aborted) {
+        this.handleReset();
+        this.showMessage('The grand race could not be run');
+        throw new Error('Failed to run the grand race');
+      }
+    }
+  }
+
+  /**
+   * Runs one heat of the grand race and waits a moment
+   * so the result of the heat stays visible.
+   *
+   * @private
+   * @param {CarDataFromApi[]} heat - The cars of the heat, already rendered on the track
+   * @param {AbortSignal} signal - Cancels the grand race on reset or page change
+   * @return {Promise<RaceParticipant[]>} - The outcome of every car of the heat
+   */
+  private async runGrandRaceHeat(
+    heat: CarDataFromApi[],
+    signal: AbortSignal
+  ): Promise<RaceParticipant[]> {
+    const outcomes = await this.runHeat(
+      heat.map((car) => car.id),
+      signal
+    );
+
+    await this.clock.wait(this.HEAT_PAUSE, signal);
+
+    return this.toParticipants(heat, outcomes);
+  }
+
+  /**
+   * Pairs the cars of a race with their outcomes.
+   * Cars without an outcome were stopped and are left out.
+   *
+   * @private
+   * @param {CarDataFromApi[]} cars - The cars of the race
+   * @param {Map<number, CarRaceOutcome>} outcomes - The outcome of each car by ID
+   * @return {RaceParticipant[]} - The cars with their outcomes
+   */
+  private toParticipants(
+    cars: CarDataFromApi[],
+    outcomes: Map<number, CarRaceOutcome>
+  ): RaceParticipant[] {
+    return cars.flatMap((car) => {
+      const outcome = outcomes.get(car.id);
+
+      return outcome ? [{ car, outcome }] : [];
+    });
+  }
+
+  /**
+   * Shows which heat is on the track instead of the page number.
+   *
+   * @private
+   * @param {string} text - The description of the heat
+   */
+  private showRaceText(text: string): void {
+    if (this.pageTextElement) {
+      this.pageTextElement.textContent = text;
+    }
+  }
+
+  /**
+   * Shows the overall ranking of the grand race
+   * and records the win like a regular race.
+   *
+   * @private
+   * @param {RaceResultEntry[]} result - The results of all cars in finishing order
+   */
+  private finishGrandRace(result: RaceResultEntry[]): void {
+    this.raceState.transition('finished');
+    this.raceResults?.show('Grand race results', result);
+    this.events.emit('raceCompleted', toRaceSummary('Grand race', result));
+    this.creditWinners(result);
+  }
+
+  /**
+   * Announces the winners of a race to other components and records their wins.
+   * In a dead heat every car in first place is credited with a win.
+   *
+   * @private
+   * @param {RaceResultEntry[]} result - The results of all cars in finishing order
+   */
+  private creditWinners(result: RaceResultEntry[]): void {
+    const winners = getRaceWinners(result);
+
+    for (const { car, time } of winners) {
+      if (time === undefined) continue;
+
+      const timeSec = utilities.toSeconds(time);
+
+      this.events.emit('raceFinished', {
+        carId: car.id,
+        name: car.name,
+        time: timeSec,
+      });
+      void this.sendOrUpdateWinnerData(car.id, timeSec);
+    }
+
+    if (winners.length > 1) {
+      this.showMessage(
+        `Dead heat: ${winners.map(({ car }) => car.name).join(' and ')} share the win`
+      );
+    }
+  }
+
+  /**
+   * Creates the tournament bracket and the dialog for choosing its participants.
+   *
+   * @private
+   */
+  private createTournamentView(): void {
+    this.tournamentDialog = new TournamentDialog({
+      onSubmit: this.handleStartTournament.bind(this),
+    });
+    this.tournamentBracket = new TournamentBracket({
+      onRunHeat: this.handleRunTournamentHeat.bind(this),
+      onAbandon: this.handleAbandonTournament.bind(this),
+    });
+
+    this.element.addInnerElement(this.tournamentBracket.getHTMLElement());
+    this.element.addInnerElement(this.tournamentDialog.getHTMLElement());
+    this.updateTournamentBracket();
+  }
+
+  /**
+   * Loads every car of the garage and offers them as tournament participants.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async handleTournament(): Promise<void> {
+    try {
+      const cars = await fetchAllCars(this.apiService, this.CAR_PER_PAGE);
+
+      this.tournamentDialog?.open(cars);
+    } catch {
+      throw new Error('Failed to load cars for the tournament');
+    }
+  }
+
+  /**
+   * Starts a tournament with the chosen cars, replacing the current one.
+   *
+   * @private
+   * @param {CarDataFromApi[]} cars - The participants
+   */
+  private handleStartTournament(cars: CarDataFromApi[]): void {
+    this.handleReset();
+    this.tournament.start(cars, this.CAR_PER_PAGE);
+    this.updateTournamentBracket();
+  }
+
+  /**
+   * Races the next heat of the tournament on the track.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async handleRunTournamentHeat(): Promise<void> {
+    const next = this.tournament.nextHeat();
+
+    if (!next) {
+      return;
+    }
+
+    this.handleReset();
+
+    const controller = this.beginRace();
+
+    if (!controller) {
+      return;
+    }
+
+    const carIds = next.heat.cars.map((car) => car.id);
+    const title = `Tournament round ${String(next.round)}, heat ${String(next.index)}`;
+    const recorder = new RaceRecorder(
+      title,
+      next.heat.cars,
+      this.clock,
+      this.laps
+    );
+    this.hasStaleCars = true;
+    this.renderCars(next.heat.cars);
+    this.showRaceText(
+      `Tournament: round ${String(next.round)}, heat ${String(next.index)}`
+    );
+    this.events.emit('raceStarted', { carIds });
+
+    const outcomes = await this.runHeat(carIds, controller.signal, recorder);
+
+    if (!controller.signal.aborted) {
+      this.finishTournamentHeat(
+        title,
+        buildRaceResult(this.toParticipants(next.heat.cars, outcomes)),
+        recorder.getReplay()
+      );
+    }
+  }
+
+  /**
+   * Records the result of a tournament heat and shows who advances.
+   * The results show the lap times, which the stored heat does not keep.
+   *
+   * @private
+   * @param {string} title - The round and heat
+   * @param {RaceResultEntry[]} result - The results of all cars of the heat in finishing order
+   * @param {RaceReplay} replay - The recorded heat
+   */
+  private finishTournamentHeat(
+    title: string,
+    result: RaceResultEntry[],
+    replay: RaceReplay
+  ): void {
+    const heat = toRaceSummary(title, result);
+    const winner = this.tournament.recordHeat(heat.finishes);
+
+    this.events.emit('raceCompleted', heat);
+    this.raceState.transition('finished');
+    this.updateTournamentBracket();
+
+    if (!winner) {
+      this.raceResults?.show(
+        heat.finishes.length > 0
+          ? 'Dead heat for first place. Run the heat again'
+          : 'No car reached the finish. Run the heat again',
+        result,
+        replay
+      );
+    } else if (this.tournament.champion) {
+      this.raceResults?.show(
+        `${winner.car.name} is the tournament champion`,
+        result,
+        replay
+      );
+      void this.creditChampion();
+    } else {
+      this.raceResults?.show(
+        `${winner.car.name} advances to the next round`,
+        result,
+        replay
+      );
+    }
+  }
+
+  /**
+   * Announces the tournament champion and credits the win in the winners table once.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async creditChampion(): Promise<void> {
+    const champion = this.tournament.champion;
+
+    if (!champion || this.tournament.state?.credited !== false) {
+      return;
+    }
+
+    if (champion.time !== undefined) {
+      const timeSec = utilities.toSeconds(champion.time);
+
+      this.events.emit('raceFinished', {
+        carId: champion.car.id,
+        name: champion.car.name,
+        time: timeSec,
+      });
+      await this.sendOrUpdateWinnerData(champion.car.id, timeSec);
+    }
+
+    this.tournament.markCredited();
+  }
+
+  /**
+   * Closes the tournament and returns the track to the current page.
+   *
+   * @private
+   */
+  private handleAbandonTournament(): void {
+    this.handleReset();
+    this.tournament.clear();
+    this.updateTournamentBracket();
+  }
+
+  /**
+   * Renders the current tournament bracket.
+   *
+   * @private
+   */
+  private updateTournamentBracket(): void {
+    this.tournamentBracket?.update(
+      this.tournament.state,
+      this.tournament.champion
+    );
+  }
+
+  /**
+   * Races the given cars of the track until every car has finished,
+   * broken down or been stopped. A car whose engine could not be started
+   * in time, or whose finish is not confirmed by the server in time,
+   * does not finish. The cars start driving at the start signal.
+   *
+   * @private
+   * @param {number[]} carIds - The IDs of the participating cars.
+   * @param {AbortSignal} raceSignal - Cancels the race on reset or page change.
+   * @param {RaceRecorder} [recorder] - Records the starts and breakdowns for a replay.
+   * @return {Promise<Map<number, CarRaceOutcome>>} The outcome of every car that was not stopped.
+   */
+  private async runHeat(
+    carIds: number[],
+    raceSignal: AbortSignal,
+    recorder?: RaceRecorder
+  ): Promise<Map<number, CarRaceOutcome>> {
+    const signals = new Map<number, AbortSignal>();
+
+    if (!raceSignal.aborted) {
+      this.raceState.transition('preparing');
+    }
+
+    const results = await Promise.allSettled(
+      this.prepareCarsForRace(carIds, signals)
+    );
+    const reactions = await this.giveStartSignal(carIds, raceSignal);
+
+    if (!reactions) {
+      return new Map();
+    }
+
+    this.raceState.transition('racing');
+
+    return this.raceHeatCars(carIds, results, signals, reactions, recorder);
+  }
+
+  /**
+   * Races the prepared cars of a heat from the start signal on.
+   * A car whose engine could not be started does not finish.
+   *
+   * @private
+   * @param {number[]} carIds - The IDs of the participating cars.
+   * @param {PromiseSettledResult<CarAnimationOptions>[]} results - The preparation result of each car.
+   * @param {Map<number, AbortSignal>} signals - The request signal of each car.
+   * @param {Map<number, CarReaction>} reactions - The reaction of each car, if reaction starts are switched on.
+   * @param {RaceRecorder} [recorder] - Records the starts and breakdowns for a replay.
+   * @return {Promise<Map<number, CarRaceOutcome>>} The outcome of every car that was not stopped.
+   */
+  private async raceHeatCars(
+    carIds: number[],
+    results: PromiseSettledResult<CarAnimationOptions>[],
+    signals: Map<number, AbortSignal>,
+    reactions: Map<number, CarReaction>,
+    recorder?: RaceRecorder
+  ): Promise<Map<number, CarRaceOutcome>> {
+    const supervisor = new RaceSupervisor(this.clock, this.DRIVE_GRACE);
+    const outcomes = new Map<number, CarRaceOutcome>();
+
+    const arrivals = carIds.map(async (carId, index) => {
+      const result = results[index];
+      const signal = signals.get(carId);
+
+      if (!result || !signal || signal.aborted) {
+        return;
+      }
+
+      const outcome: CarRaceOutcome | undefined =
+        result.status === 'fulfilled'
+          ? await this.reactAndRace(
+              result.value,
+              signal,
+              supervisor,
+              reactions.get(carId),
+              recorder
+            )
+          : { status: 'dnf', distance: 0 };
+
+      if (outcome) {
+        outcomes.set(carId, outcome);
+      }
+    });
+
+    try {
+      await Promise.all(arrivals);
+    } finally {
+      supervisor.dispose();
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Gives the start signal of a heat: the 3-2-1 countdown if it is switched on,
+   * and the reaction of every car if reaction starts are switched on.
+   * The countdown runs on the race clock, so a pause holds it.
+   *
+   * @private
+   * @param {number[]} carIds - The IDs of the participating cars.
+   * @param {AbortSignal} raceSignal - Cancels the race on reset or page change.
+   * @return {Promise<Map<number, CarReaction> | undefined>} The reaction of each car,
+   * or `undefined` if the race was cancelled before the start.
+   */
+  private async giveStartSignal(
+    carIds: number[],
+    raceSignal: AbortSignal
+  ): Promise<Map<number, CarReaction> | undefined> {
+    const { countdown, reactionStart, falseStartPenalty } = this.startRules;
+    const reactions = new Map<number, CarReaction>(
+      reactionStart
+        ? carIds.map((carId) => [carId, drawReaction(falseStartPenalty)])
+        : []
+    );
+
+    try {
+      for (let count = COUNTDOWN_LIGHTS; countdown && count > 0; count -= 1) {
+        this.startLights.count(count);
+        await this.clock.wait(COUNTDOWN_STEP, raceSignal);
+      }
+    } catch {
+      return undefined;
+    }
+
+    if (raceSignal.aborted) {
+      return undefined;
+    }
+
+    const falseStarters = carIds.filter(
+      (carId) => reactions.get(carId)?.falseStart
+    );
+
+    if (countdown || falseStarters.length > 0) {
+      this.showStartSignal(falseStarters, falseStartPenalty, raceSignal);
+    }
+
+    return reactions;
+  }
+
+  /**
+   * Shows the start signal on the lights for a moment,
+   * with the cars that jumped the start and their penalty.
+   *
+   * @private
+   * @param {number[]} falseStarters - The IDs of the cars that jumped the start
+   * @param {number} penalty - The false-start penalty in ms
+   * @param {AbortSignal} raceSignal - Cancels the race on reset or page change.
+   */
+  private showStartSignal(
+    falseStarters: number[],
+    penalty: number,
+    raceSignal: AbortSignal
+  ): void {
+    const names = falseStarters.map(
+      (carId) => this.carInstances.get(carId)?.name ?? String(carId)
+    );
+
+    this.startLights.go(
+      names.length > 0
+        ? `False start: ${names.join(', ')} (+${String(utilities.toSeconds(penalty))}s)`
+        : ''
+    );
+    this.clock.wait(COUNTDOWN_STEP, raceSignal).then(
+      () => {
+        this.startLights.hide();
+      },
+      () => undefined
+    );
+  }
+
+  /**
+   * Locks the car buttons and requests engine parameters for every race participant.
+   * A car whose engine does not start in time is left out of the race.
+   *
+   * @private
+   * @param {number[]} carIds - The IDs of the participating cars.
+   * @param {Map<number, AbortSignal>} signals - Receives the request signal of each car.
+   * @return {Promise<CarAnimationOptions>[]} The preparation promise of each car.
+   */
+  private prepareCarsForRace(
+    carIds: number[],
+    signals: Map<number, AbortSignal>
+  ): Promise<CarAnimationOptions>[] {
+    return carIds.map((carId: number) => {
+      this.stopExistingAnimation(carId);
+
+      this.carInstances.get(carId)?.handleButtonState(this.START_STATE);
+
+      const signal = this.createRequestSignal(carId);
+      signals.set(carId, signal);
+
+      return utilities.withAbort(
+        this.getReadyForRace(carId, signal),
+        AbortSignal.timeout(this.START_TIMEOUT)
+      );
+    });
+  }
+
+  /**
+   * Holds a car on the line for its reaction delay and then races it over all laps.
+   * The delay is added to the finish time and the first lap, so a slow reaction
+   * or a false-start penalty costs race time.
+   *
+   * @private
+   * @param {CarAnimationOptions} options - The animation options of the car
+   * @param {AbortSignal} signal - Cancels the drive on reset or page change.
+   * @param {RaceSupervisor} supervisor - Watches the cars of the race
+   * @param {CarReaction} [reaction] - The reaction of the car, if reaction starts are switched on
+   * @param {RaceRecorder} [recorder] - Records the reaction, the start and a breakdown for a replay.
+   * @return {Promise<CarRaceOutcome | undefined>} The finish time (in ms) including the delay,
+   * or the share of the track covered if the car broke down; `undefined` if it was stopped.
+   */
+  private async reactAndRace(
+    options: CarAnimationOptions,
+    signal: AbortSignal,
+    supervisor: RaceSupervisor,
+    reaction?: CarReaction,
+    recorder?: RaceRecorder
+  ): Promise<CarRaceOutcome | undefined> {
+    if (!reaction) {
+      return this.raceLaps(options, signal, supervisor, recorder);
+    }
+
+    recorder?.recordReaction(options.carId, reaction);
+
+    try {
+      await this.clock.wait(reaction.delay, signal);
+    } catch {
+      return undefined;
+    }
+
+    const outcome = await this.raceLaps(options, signal, supervisor, recorder);
+
+    return outcome && addReactionDelay(outcome, reaction.delay);
+  }
+
+  /**
+   * Races a car over all laps of the race. Every lap after the first starts
+   * the engine again on the start line, so the engine can break down on any lap.
+   * A car whose engine does not start again in time does not finish.
+   *
+   * @private
+   * @param {CarAnimationOptions} options - The animation options of the first lap
+   * @param {AbortSignal} signal - Cancels the drive on reset or page change.
+   * @param {RaceSupervisor} supervisor - Watches the cars of the race
+   * @param {RaceRecorder} [recorder] - Records the starts and a breakdown for a replay.
+   * @return {Promise<CarRaceOutcome | undefined>} The total time with the lap times,
+   * or the share of the race covered with the completed laps; `undefined` if it was stopped.
+   */
+  private async raceLaps(
+    options: CarAnimationOptions,
+    signal: AbortSignal,
+    supervisor: RaceSupervisor,
+    recorder?: RaceRecorder
+  ): Promise<CarRaceOutcome | undefined> {
+    const { carId } = options;
+    const laps: number[] = [];
+
+    for (let lap = 1; lap <= this.laps; lap += 1) {
+      const lapOptions =
+        lap === 1 ? options : await this.startNextLap(carId, signal);
+
+      if (!lapOptions || signal.aborted) {
+        return signal.aborted
+          ? undefined
+          : { status: 'dnf', distance: laps.length / this.laps, laps };
+      }
+
+      this.carInstances.get(carId)?.showLap(lap, this.laps);
+
+      const outcome = await this.raceCar(
+        lapOptions,
+        signal,
+        supervisor,
+        recorder
+      );
+
+      if (outcome?.status !== 'finished') {
+        return (
+          outcome && {
+            status: 'dnf',
+            distance: (laps.length + outcome.distance) / this.laps,
+            laps,
+          }
+        );
+      }
+
+      laps.push(outcome.time);
+    }
+
+    return {
+      status: 'finished',
+      time: laps.reduce((total, time) => total + time, 0),
+      laps,
+    };
+  }
+
+  /**
+   * Puts a car back on the start line and starts its engine for the next lap.
    *
    * @private
+   * @param {number} carId - The ID of the car
+   * @param {AbortSignal} signal - Cancels the request on reset or page change.
+   * @return {Promise<CarAnimationOptions | undefined>} The animation options of the lap,
+   * or `undefined` if the engine did not start in time.
    */
-  private goToPrevPage(): void {
-    this.handleReset();
+  private async startNextLap(
+    carId: number,
+    signal: AbortSignal
+  ): Promise<CarAnimationOptions | undefined> {
+    const carInstance = this.carInstances.get(carId);
 
-    if (this.currentPage <= 1) {
-      return;
+    if (carInstance) {
+      carInstance.carImageElement.style.transform = `translateX(0px)`;
     }
-    this.currentPage -= 1;
 
-    void this.loadCars();
+    try {
+      return await utilities.withAbort(
+        this.getReadyForRace(carId, signal),
+        AbortSignal.timeout(this.START_TIMEOUT)
+      );
+    } catch {
+      return undefined;
+    }
   }
 
   /**
-   * Renders the current list of cars into the car area container
+   * Starts the animation of a prepared car and checks its drive status.
+   * The finish time is `distance / velocity` as reported by the engine;
+   * the animation only shows it, so frame rate and throttling do not matter.
+   * A car finishes once it has arrived and the server confirmed the drive;
+   * the supervisor gives it up if the server does not confirm the drive in time.
    *
    * @private
+   * @param {CarAnimationOptions} options - The animation options of the car
+   * @param {AbortSignal} signal - Cancels the drive on reset or page change.
+   * @param {RaceSupervisor} supervisor - Watches the cars of the race
+   * @param {RaceRecorder} [recorder] - Records the start and a breakdown for a replay.
+   * @return {Promise<CarRaceOutcome | undefined>} The finish time (in ms), or the share
+   * of the track covered if the car broke down; `undefined` if it was stopped.
    */
-  private renderCars(): void {
-    this.carInstances.clear();
-
-    while (this.carArea?.getElement().firstElementChild) {
-      this.carArea.getElement().firstElementChild?.remove();
-    }
+  private raceCar(
+    options: CarAnimationOptions,
+    signal: AbortSignal,
+    supervisor: RaceSupervisor,
+    recorder?: RaceRecorder
+  ): Promise<CarRaceOutcome | undefined> {
+    const { carId, engine } = options;
+    const time = engine.distance / engine.velocity;
+    const startTime = this.clock.now();
+    const driving = this.checkDriveStatus(carId, signal);
+    let settled = false;
+
+    return new Promise((resolve) => {
+      const onAbort = (): void => settle(undefined);
+      const settle = (outcome?: CarRaceOutcome): void => {
+        settled = true;
+        signal.removeEventListener('abort', onAbort);
+        supervisor.release(carId);
+        resolve(outcome);
+      };
+      const arrive = (): void =>
+        void driving.then((drive) => {
+          if (drive === 'confirmed') settle({ status: 'finished', time });
+        });
+      const giveUp = (drive?: DriveOutcome): void => {
+        if (!settled) {
+          settle(this.abandonCar(options, startTime, drive, recorder));
+        }
+      };
 
-    const callbacks: CarCallbacks = {
-      onSelect: this.handleSelectCar.bind(this),
-      onDelete: this.handleDeleteCar.bind(this),
-      onStart: this.handleStartCar.bind(this),
-      onStop: this.handleStopCar.bind(this),
-    };
+      signal.addEventListener('abort', onAbort, { once: true });
+      void driving.then((drive) => {
+        if (drive === 'confirmed') supervisor.confirm(carId);
+        else if (!signal.aborted) giveUp(drive);
+      });
 
-    for (const car of this.cars) {
-      const carElement: Car = new Car(car, callbacks);
-      if (this.carArea === undefined) {
-        this.createCarsArea();
+      if (this.animateRaceCar(options, supervisor, startTime, arrive, giveUp)) {
+        recorder?.recordStart(carId, engine);
       } else {
-        this.carInstances.set(car.id, carElement);
-        this.carArea.addInnerElement(carElement.getHTMLElement());
+        settle(undefined);
       }
-    }
+    });
   }
 
   /**
-   * Creates the main control panel containing forms and action buttons.
+   * Starts the animation of a race car and lets the supervisor watch it.
+   * When a background tab becomes visible again, a car past its expected
+   * finish is put at the finish line at once.
    *
+   * @private
+   * @param {CarAnimationOptions} options - The animation options of the car
+   * @param {RaceSupervisor} supervisor - Watches the cars of the race
+   * @param {number} startTime - The race clock time of the start
+   * @param {() => void} arrive - Called when the car reaches the finish line
+   * @param {() => void} giveUp - Called when the supervisor gives the car up
+   * @return {boolean} `false` if the animation could not be started.
    */
-  private createControlPanel(): void {
-    const panelCallbacks: GaragePanelCallbacks = {
-      onCreate: this.handleCreateCar.bind(this),
-      onUpdate: this.handleUpdateCar.bind(this),
-      onRace: this.handleRace.bind(this),
-      onReset: this.handleReset.bind(this),
-      onGenerate: this.handleGenerateCars.bind(this),
-    };
+  private animateRaceCar(
+    options: CarAnimationOptions,
+    supervisor: RaceSupervisor,
+    startTime: number,
+    arrive: () => void,
+    giveUp: () => void
+  ): boolean {
+    const { carId, car, duration, distance } = options;
+    const animationId = this.animationCar({ ...options, onFinish: arrive });
+
+    if (!animationId) {
+      return false;
+    }
 
-    this.garagePanel = new GaragePanel(panelCallbacks);
+    this.activeAnimations.set(carId, animationId);
+    supervisor.watch({
+      carId,
+      startTime,
+      duration,
+      onCatchUp: (): void => {
+        this.cleanupAnimation(carId);
+        car.style.transform = `translateX(${String(distance)}px)`;
+        arrive();
+      },
+      onExpire: giveUp,
+    });
 
-    this.element.addInnerElement(this.garagePanel.getHTMLElement());
+    return true;
   }
 
   /**
-   * Handles creating a new car. Sends the created car information to the Server API
+   * Ends the race of a car that did not finish. A car that was returned
+   * to the start, e.g. because its engine was not found, is not marked
+   * as broken down on the track.
    *
    * @private
-   * @param {CarInformation} carInformation - An object with car information
-   * @throws {Error} Throws an error if the HTTP request failed
+   * @param {CarAnimationOptions} options - The animation options of the car
+   * @param {number} startTime - The race clock time of the start
+   * @param {(DriveOutcome | undefined)} drive - The outcome of the drive request, if it answered
+   * @param {RaceRecorder} [recorder] - Records the breakdown for a replay.
+   * @return {CarRaceOutcome} The share of the track covered.
    */
-  private async handleCreateCar(carInformation: CarInformation): Promise<void> {
-    try {
-      await this.apiService.createCar(carInformation);
-      await this.loadCars(this.currentPage);
-    } catch {
-      throw new Error('Failed to create car');
+  private abandonCar(
+    options: CarAnimationOptions,
+    startTime: number,
+    drive: DriveOutcome | undefined,
+    recorder?: RaceRecorder
+  ): CarRaceOutcome {
+    if (drive !== 'stopped') {
+      return this.breakDown(options, startTime, recorder);
     }
+
+    recorder?.recordBreak(options.carId);
+
+    return { status: 'dnf', distance: 0 };
   }
 
   /**
-   * Handles updating an existing car. Sends the updated car information to the Server API.
+   * Freezes a car that did not finish, marks the breakdown on the track
+   * and measures how far it got.
    *
    * @private
-   * @param {CarInformation} carInformation - An object with car information
+   * @param {CarAnimationOptions} options - The animation options of the car
+   * @param {number} startTime - The race clock time of the start
+   * @param {RaceRecorder} [recorder] - Records the breakdown for a replay.
+   * @return {CarRaceOutcome} The share of the track covered.
    */
-  private async handleUpdateCar(carInformation: CarInformation): Promise<void> {
-    try {
-      if (!this.currentID) {
-        return;
-      }
+  private breakDown(
+    options: CarAnimationOptions,
+    startTime: number,
+    recorder?: RaceRecorder
+  ): CarRaceOutcome {
+    const time = this.clock.now() - startTime;
+    const distance = Math.min(time / options.duration, 1);
+
+    this.cleanupAnimation(options.carId);
+    this.carInstances.get(options.carId)?.showBreakdown({ time, distance });
+    recorder?.recordBreak(options.carId);
+
+    return { status: 'dnf', distance };
+  }
 
-      if (this.garagePanel) {
-        this.garagePanel.disabledUpdatePanel();
+  /**
+   * Resets the state (e.g., position) of all cars on the page to their starting points.
+   *
+   * @private
+   */
+  private handleReset(): void {
+    this.raceState.transition('resetting');
+    this.abortAllRequests();
+    this.raceController?.abort();
+    this.raceController = undefined;
+    this.clock.resume();
+    this.startLights.hide();
+    this.hideMessage();
+    this.raceResults?.hide();
+    this.raceState.transition('idle');
+
+    for (const carId of this.carInstances.keys()) {
+      if (this.isReplaying) {
+        this.returnCarToStart(carId);
+      } else {
+        void this.handleStopCar(carId);
       }
+    }
 
-      await this.apiService.updateCar(this.currentID, carInformation);
-      await this.loadCars(this.currentPage);
-    } catch {
-      throw new Error('Failed to create car');
+    this.isReplaying = false;
+
+    if (this.hasStaleCars) {
+      this.hasStaleCars = false;
+      this.reloadCars();
     }
   }
 
   /**
-   * Initiates the race for all cars currently displayed on the page.
+   * Plays a recorded race on the track from its event log alone,
+   * without contacting the server, and shows its result at the end.
+   * The speed is set on the race clock, so it can still be changed during the replay.
    *
    * @private
+   * @param {RaceReplay} replay - The recorded race
+   * @param {number} speed - The playback speed, 1 being real time
+   * @return {Promise<void>}
    */
-  private async handleRace(): Promise<void> {
-    const carIds = [...this.carInstances.keys()];
+  private async playReplay(replay: RaceReplay, speed: number): Promise<void> {
+    this.handleReset();
 
-    if (carIds.length === 0) {
-      throw new Error('No cars on the page to start race.');
-    }
+    const controller = this.beginRace();
 
-    this.resetWinnerData();
-    this.hideMessage();
-    this.garagePanel?.disabledRaceButton();
+    if (!controller) {
+      return;
+    }
 
-    const preparationPromises: Promise<CarAnimationOptions>[] = carIds.map(
-      (carId: number) => {
-        this.stopExistingAnimation(carId);
+    this.isReplaying = true;
+    this.hasStaleCars = true;
+    this.raceState.transition('racing');
+    this.clock.setSpeed(speed);
+    this.renderCars(replay.cars);
+    this.showRaceText(`Replay: ${replay.title}`);
 
-        this.carInstances.get(carId)?.handleButtonState(this.START_STATE);
+    try {
+      await Promise.all(
+        replay.cars.map((car) =>
+          this.replayCar(replay, car.id, controller.signal)
+        )
+      );
+    } catch {
+      return;
+    }
 
-        return this.getReadyForRace(carId);
-      }
+    this.raceState.transition('finished');
+    this.raceResults?.show(
+      `Replay: ${replay.title}`,
+      getReplayResult(replay),
+      replay
     );
+  }
 
-    const results = await Promise.allSettled(preparationPromises);
-    const carsReadyToAnimate: CarAnimationOptions[] = [];
+  /**
+   * Moves one car of a replay lap by lap: every lap starts at its recorded
+   * time from the start line, and the car freezes where its engine broke down.
+   *
+   * @private
+   * @param {RaceReplay} replay - The recorded race
+   * @param {number} carId - The ID of the car
+   * @param {AbortSignal} signal - Cancels the replay on reset or page change
+   * @return {Promise<void>}
+   * @throws {Error} If the replay is aborted.
+   */
+  private async replayCar(
+    replay: RaceReplay,
+    carId: number,
+    signal: AbortSignal
+  ): Promise<void> {
+    const events = replay.events.filter((event) => event.carId === carId);
+    const starts = events.flatMap((event) =>
+      event.type === 'start' ? [event] : []
+    );
+    const breakdown = events.find((event) => event.type === 'break');
+    const carInstance = this.carInstances.get(carId);
+    const replayStart = this.clock.now();
 
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        const optionsWithCallback = {
-          ...result.value,
-          onFinish: this.handleCarFinish.bind(this),
-        };
-        carsReadyToAnimate.push(optionsWithCallback);
-      }
+    if (starts.length === 0 || !carInstance) {
+      return;
     }
 
-    const carsThatStartedAnimation: number[] =
-      this.initiateAnimations(carsReadyToAnimate);
+    carInstance.handleButtonState(this.START_STATE);
 
-    for (const carId of carsThatStartedAnimation) {
-      void this.checkDriveStatus(carId);
+    for (const [index, start] of starts.entries()) {
+      this.cleanupAnimation(carId);
+      carInstance.carImageElement.style.transform = `translateX(0px)`;
+      await this.clock.wait(
+        start.at - (this.clock.now() - replayStart),
+        signal
+      );
+      carInstance.showLap(index + 1, replay.laps);
+      await this.replayLap(
+        start,
+        carInstance,
+        index === starts.length - 1 ? breakdown?.at : undefined,
+        signal
+      );
     }
   }
 
   /**
-   * Starts the animation loop for all cars that were successfully prepared.
+   * Moves a car of a replay over one lap.
    *
    * @private
-   * @param {CarAnimationOptions[]} carsReadyToAnimate - Array of animation options for cars
-   * @return {number[]} An array of car IDs for which animation was successfully started
+   * @param {Extract<ReplayEvent, { type: 'start' }>} start - The recorded start of the lap
+   * @param {Car} carInstance - The car
+   * @param {(number | undefined)} breakdownAt - The recorded time of a breakdown on this lap
+   * @param {AbortSignal} signal - Cancels the replay on reset or page change
+   * @return {Promise<void>}
+   * @throws {Error} If the replay is aborted.
    */
-  private initiateAnimations(
-    carsReadyToAnimate: CarAnimationOptions[]
-  ): number[] {
-    const carsThatStartedAnimation: number[] = [];
+  private async replayLap(
+    start: Extract<ReplayEvent, { type: 'start' }>,
+    carInstance: Car,
+    breakdownAt: number | undefined,
+    signal: AbortSignal
+  ): Promise<void> {
+    const { carId } = start;
+    const { duration, distanceX } = this.calculateAnimationDetails(
+      start,
+      carInstance
+    );
+    const runTime =
+      breakdownAt === undefined
+        ? duration
+        : Math.min(breakdownAt - start.at, duration);
+    const animationId = this.animationCar({
+      carId,
+      car: carInstance.carImageElement,
+      duration,
+      distance: distanceX,
+      engine: start,
+    });
 
-    for (const carForAnimate of carsReadyToAnimate) {
-      const carId = carForAnimate.carId;
+    if (animationId) {
+      this.activeAnimations.set(carId, animationId);
+    }
 
-      const animationId = this.animationCar(carForAnimate);
+    await this.clock.wait(runTime, signal);
 
-      if (animationId) {
-        this.activeAnimations.set(carId, animationId);
-        carsThatStartedAnimation.push(carId);
-      }
+    if (runTime < duration) {
+      this.cleanupAnimation(carId);
+      carInstance.showBreakdown({
+        time: runTime,
+        distance: runTime / duration,
+      });
     }
-
-    return carsThatStartedAnimation;
   }
 
   /**
-   * Resets the state (e.g., position) of all cars on the page to their starting points.
+   * Plays a replay imported from a JSON file at the current speed.
    *
    * @private
+   * @param {string} text - The content of the file
    */
-  private handleReset(): void {
-    this.hideMessage();
-    this.resetWinnerData();
-    this.garagePanel?.enabledRaceButton();
+  private handleImportReplay(text: string): void {
+    try {
+      void this.playReplay(parseReplay(text), this.clock.speed);
+    } catch (error) {
+      this.showMessage(
+        error instanceof Error ? error.message : 'Invalid race replay'
+      );
+    }
+  }
 
-    for (const carId of this.carInstances.keys()) {
-      void this.handleStopCar(carId);
+  /**
+   * Pauses the running cars, or lets them drive on.
+   *
+   * @private
+   */
+  private handleTogglePause(): void {
+    if (this.clock.isPaused) {
+      this.clock.resume();
+    } else {
+      this.clock.pause();
     }
   }
 
   /**
-   * Handles the generation of 100 random cars
-   * by sending multiple create requests to the API.
+   * Handles the generation of random cars with the options chosen in the dialog.
    *
    * @private
+   * @param {GenerationOptions} options - The number of cars, their brands and color palette
+   * @return {Promise<void>}
    */
-  private async handleGenerateCars(): Promise<void> {
-    try {
-      const count = 100;
-      await Promise.allSettled(
-        Array.from({ length: count }).map(() =>
-          this.apiService.createCar({
-            name: utilities.getRandomCarName(this.carsData),
-            color: utilities.getRandomHexColor(),
-          })
-        )
-      );
+  private async handleGenerateCars(options: GenerationOptions): Promise<void> {
+    const cars: CarInformation[] = Array.from(
+      { length: options.count },
+      () => ({
+        name: utilities.getRandomCarName(this.carsData, options.brands),
+        color: utilities.getRandomPaletteColor(options.palette),
+      })
+    );
+
+    await this.createCarsInBulk(cars);
+  }
+
+  /**
+   * Retries creating the cars that failed in the last generation.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async handleRetryGeneration(): Promise<void> {
+    await this.createCarsInBulk(this.failedGenerations);
+  }
+
+  /**
+   * Creates cars with a limited number of parallel requests,
+   * reporting the progress in the garage panel and remembering failed cars for a retry.
+   *
+   * @private
+   * @param {CarInformation[]} cars - The cars to create
+   * @return {Promise<void>}
+   */
+  private async createCarsInBulk(cars: CarInformation[]): Promise<void> {
+    const result = await runBulk(
+      cars,
+      (car) => this.apiService.createCar(car),
+      {
+        concurrency: this.GENERATION_CONCURRENCY,
+        onProgress: (progress) => {
+          this.garagePanel?.updateGenerationProgress(progress);
+        },
+      }
+    );
+
+    this.failedGenerations = result.failed.map(({ item }) => item);
+    this.garagePanel?.showGenerationSummary({
+      total: cars.length,
+      completed: cars.length,
+      failed: result.failed.length,
+    });
+
+    if (result.succeeded.length > 0) {
+      this.events.emit('carsGenerated', { count: result.succeeded.length });
       await this.loadCars();
-    } catch {
-      throw new Error(`Failed to create 100 cars.`);
     }
   }
 
@@ -463,7 +1931,9 @@ export default class Garage extends Page {
   }
 
   /**
-   * Handles deleting a car by its ID
+   * Handles deleting a car by its ID.
+   * If only the winner record could not be deleted, the car is still
+   * removed from the garage and the Winners page offers a cleanup.
    *
    * @private
    * @param {number} id - The ID of the car to delete.
@@ -472,16 +1942,23 @@ export default class Garage extends Page {
   private async handleDeleteCar(id: number): Promise<void> {
     try {
       await this.apiService.deleteCar(id);
-      await this.loadCars(this.currentPage);
-      this.winnerView.updateTable();
+    } catch (error) {
+      if (!(error instanceof OrphanedWinnerError)) {
+        throw new Error(`Failed to delete car by ID: ${String(id)}`);
+      }
+
+      this.showMessage(
+        'Car deleted, but its winner record was kept. Clean it up on the Winners page.'
+      );
+    }
 
-      this.currentID = undefined;
+    this.events.emit('carDeleted', { id });
+    await this.loadCars(this.currentPage);
 
-      if (this.garagePanel) {
-        this.garagePanel.disabledUpdatePanel();
-      }
-    } catch {
-      throw new Error(`Failed to delete car by ID: ${String(id)}`);
+    this.currentID = undefined;
+
+    if (this.garagePanel) {
+      this.garagePanel.disabledUpdatePanel();
     }
   }
 
@@ -507,10 +1984,14 @@ export default class Garage extends Page {
    *
    * @private
    * @param {number} cardId - The ID of the car.
+   * @param {AbortSignal} signal - Cancels the request on reset or page change.
    * @return {Promise<Engine>}
    */
-  private async fetchingEngineParameters(cardId: number): Promise<Engine> {
-    const engineObject = await this.apiService.startEngine(cardId);
+  private async fetchingEngineParameters(
+    cardId: number,
+    signal: AbortSignal
+  ): Promise<Engine> {
+    const engineObject = await this.apiService.startEngine(cardId, signal);
     const { velocity, distance } = engineObject;
 
     return {
@@ -548,22 +2029,43 @@ export default class Garage extends Page {
 
   /**
    * Checks the drive status via API and handles car breakdown.
+   * A broken engine freezes the car where it stopped, a drive that is already
+   * in progress is left to its first request, and any other failure
+   * (engine not started, server unreachable) returns the car to the start.
    *
    * @private
    * @param {number} carId - The ID of the car.
-   * @return {Promise<void>}
+   * @param {AbortSignal} signal - Cancels the request on reset or page change.
+   * @return {Promise<DriveOutcome>} `confirmed` if the drive succeeded or is already in progress,
+   * `broken` if the engine broke down, and `stopped` if the car was returned to the start
+   * or the request was cancelled.
    */
-  private async checkDriveStatus(carId: number): Promise<void> {
-    const drive = await this.apiService.driveEngine(carId);
+  private async checkDriveStatus(
+    carId: number,
+    signal: AbortSignal
+  ): Promise<DriveOutcome> {
+    try {
+      await this.apiService.driveEngine(carId, signal);
+
+      return 'confirmed';
+    } catch (error) {
+      if (signal.aborted) {
+        return 'stopped';
+      }
 
-    if (!drive.success) {
-      const failedAnimationId = this.activeAnimations.get(carId);
+      if (error instanceof TooManyRequestsError) {
+        return 'confirmed';
+      }
 
-      if (failedAnimationId) {
-        cancelAnimationFrame(failedAnimationId);
+      if (error instanceof EngineBrokenError) {
+        this.cleanupAnimation(carId);
 
-        this.activeAnimations.delete(carId);
+        return 'broken';
       }
+
+      void this.handleStopCar(carId);
+
+      return 'stopped';
     }
   }
 
@@ -585,9 +2087,13 @@ export default class Garage extends Page {
    *
    * @private
    * @param {number} carId - The ID of the car to prepare.
+   * @param {AbortSignal} signal - Cancels the request on reset or page change.
    * @return {(Promise<CarAnimationOptions>)}
    */
-  private async getReadyForRace(carId: number): Promise<CarAnimationOptions> {
+  private async getReadyForRace(
+    carId: number,
+    signal: AbortSignal
+  ): Promise<CarAnimationOptions> {
     const carInstance: Car | undefined = this.carInstances.get(carId);
 
     if (carInstance === undefined) {
@@ -597,8 +2103,10 @@ export default class Garage extends Page {
     try {
       this.stopExistingAnimation(carId);
 
-      const engineParameters: Engine =
-        await this.fetchingEngineParameters(carId);
+      const engineParameters: Engine = await this.fetchingEngineParameters(
+        carId,
+        signal
+      );
 
       const { duration, distanceX } = this.calculateAnimationDetails(
         engineParameters,
@@ -610,6 +2118,7 @@ export default class Garage extends Page {
         car: carInstance.carImageElement,
         duration,
         distance: distanceX,
+        engine: engineParameters,
       };
     } catch {
       throw new Error(`Failed to prepare car ${String(carId)} for race`);
@@ -618,21 +2127,36 @@ export default class Garage extends Page {
 
   /**
    * Handles the complete process of starting a specific car's movement.
+   * Single cars can only be started on an idle track.
    *
    * @private
    * @param {number} id - The unique ID of the car to start
    * @return {Promise<void>}
    */
   private async handleStartCar(id: number): Promise<void> {
+    if (this.raceState.status !== 'idle') {
+      return;
+    }
+
     const carInstance: Car | undefined = this.carInstances.get(id);
 
     if (carInstance === undefined) {
       throw new Error(`CarInstance ID ${String(id)} does not exist`);
     }
 
+    const signal = this.createRequestSignal(id);
+
     try {
-      const options: CarAnimationOptions = await this.getReadyForRace(id);
+      const options: CarAnimationOptions = await this.getReadyForRace(
+        id,
+        signal
+      );
+
+      if (signal.aborted) {
+        return;
+      }
 
+      const startTime = this.clock.now();
       const animationId = this.animationCar(options);
 
       if (animationId) {
@@ -644,8 +2168,16 @@ export default class Garage extends Page {
 
       carInstance.handleButtonState(this.START_STATE);
 
-      await this.checkDriveStatus(id);
+      const drive = await this.checkDriveStatus(id, signal);
+
+      if (drive === 'broken' && !signal.aborted) {
+        this.breakDown(options, startTime);
+      }
     } catch {
+      if (signal.aborted) {
+        return;
+      }
+
       this.cleanupAnimation(id);
       carInstance.handleButtonState();
     }
@@ -653,6 +2185,8 @@ export default class Garage extends Page {
 
   /**
    * Initiates and manages the `requestAnimationFrame` loop for animating a car's movement.
+   * The progress is measured on the race clock, so the car stands still while
+   * the clock is paused and the time elapsed is race time.
    *
    * @private
    * @param {CarAnimationOptions} options - An object containing the necessary parameters (
@@ -664,10 +2198,11 @@ export default class Garage extends Page {
 
     let startTime: number | null;
 
-    const step = (timestamp: number): void => {
-      startTime ??= timestamp;
+    const step = (): void => {
+      const now = this.clock.now();
+      startTime ??= now;
 
-      const timeElapsed = timestamp - startTime;
+      const timeElapsed = now - startTime;
       const progress = timeElapsed / duration;
 
       const deltaX = progress * distance;
@@ -692,33 +2227,6 @@ export default class Garage extends Page {
     return initialFrameId;
   }
 
-  /**
-   * Handles the event when a car finishes its animation.
-   *
-   * @private
-   * @param {number} carId - The ID of the car that finished.
-   * @param {number} timeElapsed - The actual time (in ms) the animation took.
-   */
-  private handleCarFinish(carId: number, timeElapsed: number): void {
-    if (this.currentWinnerId !== undefined) {
-      return;
-    }
-
-    this.currentWinnerId = carId;
-    const winnerCarData = this.cars.find((car) => car.id === carId);
-
-    if (!winnerCarData) {
-      throw new Error(`Winner car data not found for ID: ${String(carId)}`);
-    }
-
-    const timeSec = Number((timeElapsed / 1000).toFixed(2));
-    this.winnerData = { car: winnerCarData, time: timeSec };
-
-    this.showMessage(`${winnerCarData.name} wins in ${String(timeSec)}s`);
-
-    void this.sendOrUpdateWinnerData(carId, timeSec);
-  }
-
   /**
    * Gets existing winner data and creates/updates it on the server.
    *
@@ -743,6 +2251,7 @@ export default class Garage extends Page {
         };
 
         await this.apiService.updateWinner(carId, updatedData);
+        this.events.emit('winnerSaved', { id: carId, ...updatedData });
       } else {
         const newWinnerData: WinnerInformationFromApi = {
           wins: 1,
@@ -751,9 +2260,8 @@ export default class Garage extends Page {
         };
 
         await this.apiService.createWinner(newWinnerData);
+        this.events.emit('winnerSaved', newWinnerData);
       }
-
-      this.winnerView.updateTable();
     } catch {
       throw new Error(`Failed to process winner data`);
     }
@@ -768,6 +2276,28 @@ export default class Garage extends Page {
    * @return {Promise<void>}
    */
   private async handleStopCar(id: number): Promise<void> {
+    this.returnCarToStart(id);
+
+    if (this.isReplaying) {
+      return;
+    }
+
+    try {
+      await this.apiService.stopEngine(id);
+    } catch {
+      throw new Error(`Error stopping engine via API for car ${String(id)}`);
+    }
+  }
+
+  /**
+   * Stops a specific car's animation, clears its breakdown and resets its visual
+   * position to the start without contacting the server.
+   *
+   * @private
+   * @param {number} id - The unique ID of the car to return
+   */
+  private returnCarToStart(id: number): void {
+    this.abortCarRequests(id);
     this.cleanupAnimation(id);
 
     const carInstance: Car | undefined = this.carInstances.get(id);
@@ -777,19 +2307,48 @@ export default class Garage extends Page {
     }
 
     carInstance.handleButtonState();
+    carInstance.clearBreakdown();
+    carInstance.hideLap();
+    carInstance.carImageElement.style.transform = `translateX(0px)`;
+  }
 
-    try {
-      const car: SVGElement | undefined =
-        this.carInstances.get(id)?.carImageElement;
+  /**
+   * Cancels the outstanding requests of a car and creates a new signal for its next ones.
+   *
+   * @private
+   * @param {number} carId - The ID of the car.
+   * @return {AbortSignal} The signal to pass to the car's engine requests.
+   */
+  private createRequestSignal(carId: number): AbortSignal {
+    this.abortCarRequests(carId);
 
-      if (car === undefined) {
-        throw new Error('Error to get car img');
-      }
-      car.style.transform = `translateX(0px)`;
+    const controller = new AbortController();
+    this.requestControllers.set(carId, controller);
 
-      await this.apiService.stopEngine(id);
-    } catch {
-      throw new Error(`Error stopping engine via API for car ${String(id)}`);
+    return controller.signal;
+  }
+
+  /**
+   * Cancels the outstanding engine requests of a car.
+   *
+   * @private
+   * @param {number} carId - The ID of the car.
+   */
+  private abortCarRequests(carId: number): void {
+    this.requestControllers.get(carId)?.abort();
+    this.requestControllers.delete(carId);
+  }
+
+  /**
+   * Cancels the outstanding engine requests of all cars.
+   *
+   * @private
+   */
+  private abortAllRequests(): void {
+    for (const controller of this.requestControllers.values()) {
+      controller.abort();
     }
+
+    this.requestControllers.clear();
   }
 }
@@ -0,0 +1,270 @@
+import styles from './history.module.scss';
+
+import type {
+  Creator,
+  PaginationCallbacks,
+  RaceRecord,
+  RaceResultEntry,
+} from '../../../types/interfaces';
+import type RaceHistory from '../../../race/race-history';
+import { toRaceResult } from '../../../race/race-history';
+import ElementCreator from '../../../utils/element-creator';
+import { toSeconds } from '../../../utils/utilities';
+import Pagination from '../../pagination/pagination';
+import Page from '../page';
+
+/**
+ * Lists the races run in this browser, newest first,
+ * with their participants, finishing order, winner time and DNFs.
+ *
+ * @export
+ * @class History
+ * @extends {Page}
+ */
+export default class History extends Page {
+  private raceHistory: RaceHistory;
+  private readonly RACES_PER_PAGE = 5;
+  private currentPage = 1;
+  private maxPages = 1;
+  private carFilter: number | undefined = undefined;
+  private filterSelect: HTMLSelectElement | undefined;
+  private racesElement: ElementCreator | undefined;
+  private pagination: Pagination | undefined;
+
+  /**
+   * Creates an instance of History.
+   * @param {RaceHistory} raceHistory - The stored past races
+   */
+  constructor(raceHistory: RaceHistory) {
+    const options: Creator = {
+      tag: 'div',
+      classNames: [styles.history],
+      attributes: {
+        'data-id': 'history',
+      },
+    };
+    const pageName = 'History';
+
+    super(pageName, options);
+
+    this.raceHistory = raceHistory;
+    this.createPageView();
+    this.raceHistory.subscribe(() => {
+      this.loadRaces();
+    });
+
+    this.loadRaces();
+  }
+
+  /**
+   * Initializes the page structure.
+   *
+   * @private
+   */
+  private createPageView(): void {
+    this.createHeader();
+    this.createPageText(this.currentPage);
+    this.createFilter();
+    this.createPagination();
+
+    this.racesElement = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.historyRaces],
+    });
+    this.element.addInnerElement(this.racesElement);
+  }
+
+  /**
+   * Creates the select that filters the races by car.
+   *
+   * @private
+   */
+  private createFilter(): void {
+    const label = new ElementCreator({
+      tag: 'label',
+      classNames: [styles.historyFilter],
+      textContent: 'Car',
+    });
+    const select = new ElementCreator({
+      tag: 'select',
+      classNames: [styles.historySelect],
+    });
+    const element = select.getElement();
+
+    if (element instanceof HTMLSelectElement) {
+      this.filterSelect = element;
+      element.addEventListener('change', () => {
+        this.carFilter = element.value ? Number(element.value) : undefined;
+        this.currentPage = 1;
+        this.loadRaces();
+      });
+    }
+
+    label.addInnerElement(select);
+    this.element.addInnerElement(label);
+  }
+
+  /**
+   * Fills the filter with every car that took part in a stored race.
+   *
+   * @private
+   */
+  private updateFilterOptions(): void {
+    if (!this.filterSelect) return;
+
+    const options = [
+      { value: '', text: 'All cars' },
+      ...this.raceHistory.getCars().map((car) => ({
+        value: String(car.id),
+        text: car.name,
+      })),
+    ];
+
+    this.filterSelect.replaceChildren(
+      ...options.map(({ value, text }) => new Option(text, value))
+    );
+    this.filterSelect.value =
+      this.carFilter === undefined ? '' : String(this.carFilter);
+  }
+
+  /**
+   * Creates the pagination of the races.
+   *
+   * @private
+   */
+  private createPagination(): void {
+    const callbacks: PaginationCallbacks = {
+      goToPrevPage: this.goToPrevPage.bind(this),
+      goToNextPage: this.goToNextPage.bind(this),
+    };
+    this.pagination = new Pagination(callbacks);
+
+    this.element.addInnerElement(this.pagination.getHTMLElement());
+  }
+
+  /**
+   * Navigates to the next page of races.
+   *
+   * @private
+   */
+  private goToNextPage(): void {
+    if (this.currentPage >= this.maxPages) {
+      return;
+    }
+
+    this.currentPage += 1;
+
+    this.loadRaces();
+  }
+
+  /**
+   * Navigates to the previous page of races.
+   *
+   * @private
+   */
+  private goToPrevPage(): void {
+    if (this.currentPage <= 1) {
+      return;
+    }
+
+    this.currentPage -= 1;
+
+    this.loadRaces();
+  }
+
+  /**
+   * Loads the races of the current page and filter and renders them.
+   *
+   * @private
+   */
+  private loadRaces(): void {
+    const { items, totalCount } = this.raceHistory.list(
+      this.currentPage,
+      this.RACES_PER_PAGE,
+      this.carFilter
+    );
+
+    this.maxPages = Math.max(1, Math.ceil(totalCount / this.RACES_PER_PAGE));
+
+    if (this.currentPage > this.maxPages) {
+      this.currentPage = this.maxPages;
+      this.loadRaces();
+      return;
+    }
+
+    this.updateFilterOptions();
+    this.updateHeaderFields(totalCount, this.currentPage);
+    this.pagination?.updatePaginationState(this.currentPage, this.maxPages);
+    this.racesElement
+      ?.getElement()
+      .replaceChildren(
+        ...items.map((record) => this.createRace(record).getElement())
+      );
+  }
+
+  /**
+   * Creates the card of a past race.
+   *
+   * @private
+   * @param {RaceRecord} record - The stored race
+   * @return {ElementCreator} The race card.
+   */
+  private createRace(record: RaceRecord): ElementCreator {
+    const result = toRaceResult(record);
+    const [winner] = result;
+    const race = new ElementCreator({
+      tag: 'article',
+      classNames: [styles.historyRace],
+    });
+    const summary =
+      winner?.time === undefined
+        ? 'No car reached the finish'
+        : `Winner: ${winner.car.name} in ${String(toSeconds(winner.time))}s`;
+
+    race.addInnerElement(
+      new ElementCreator({
+        tag: 'h3',
+        classNames: [styles.historyRaceTitle],
+        textContent: `${record.title} · ${new Date(record.timestamp).toLocaleString()}`,
+      })
+    );
+    race.addInnerElement(
+      new ElementCreator({ tag: 'p', classNames: [], textContent: summary })
+    );
+
+    const list = new ElementCreator({
+      tag: 'ol',
+      classNames: [styles.historyResults],
+    });
+
+    for (const entry of result) {
+      list.addInnerElement(this.createResult(entry));
+    }
+
+    race.addInnerElement(list);
+
+    return race;
+  }
+
+  /**
+   * Creates the line of one participant of a past race.
+   *
+   * @private
+   * @param {RaceResultEntry} entry - The result of the car
+   * @return {ElementCreator} The list item.
+   */
+  private createResult(entry: RaceResultEntry): ElementCreator {
+    const { car, time, gap, distance } = entry;
+    const gapText = gap ? ` (+${String(toSeconds(gap))}s)` : '';
+    const text =
+      time === undefined
+        ? `DNF ${car.name} — ${String(Math.round(distance * 100))}% covered`
+        : `${car.name} — ${String(toSeconds(time))}s${gapText}`;
+
+    return new ElementCreator({
+      tag: 'li',
+      classNames: time === undefined ? [styles.historyDnf] : [],
+      textContent: text,
+    });
+  }
+}
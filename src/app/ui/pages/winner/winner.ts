@@ -2,37 +2,45 @@ import styles from './winner.module.scss';
 import carSvgString from '../../../../assets/images/car.svg?raw';
 
 import type {
+  Backend,
   CarDataFromApi,
   Creator,
   FilterCallbacks,
   FullWinnerDetails,
   PaginationCallbacks,
-  WinnerInformationFromApi,
+  SortOrder,
+  WinnerSort,
 } from '../../../types/interfaces';
 import Table from '../../table/table';
 import Page from '../page';
-import type APIService from '../../../api/api-service';
 import Pagination from '../../pagination/pagination';
+import Button from '../../button/button';
+import ElementCreator from '../../../utils/element-creator';
+import type { AppEventBus, AppStore } from '../../../state/app-state';
 
-type Sort = 'id' | 'wins' | 'time';
-export type Order = 'ASC' | 'DESC';
 export default class Winner extends Page {
-  private apiService: APIService;
+  private apiService: Backend;
   private table: Table | undefined;
   private currentPage = 1;
   private WINNERS_PER_PAGE = 10;
   private totalCount = 0;
-  private winners: WinnerInformationFromApi[] = [];
   private maxPages = 1;
-  private currentSort: Sort = 'id';
-  private currentOrder: Order = 'ASC';
+  private currentSort: WinnerSort = 'id';
+  private currentOrder: SortOrder = 'ASC';
   private pagination: Pagination | undefined;
+  private orphanNotice: ElementCreator | undefined;
+  private orphanNoticeText: ElementCreator | undefined;
+  private store: AppStore;
+  private events: AppEventBus;
+  private latestLoad = 0;
 
   /**
    * Creates an instance of Winner.
-   * @param {APIService} api - The instance of APIService for data fetching
+   * @param {Backend} api - The backend used for data fetching
+   * @param {AppStore} store - The shared application state
+   * @param {AppEventBus} events - The shared application event bus
    */
-  constructor(api: APIService) {
+  constructor(api: Backend, store: AppStore, events: AppEventBus) {
     const options: Creator = {
       tag: 'div',
       classNames: [styles.winner],
@@ -45,7 +53,10 @@ export default class Winner extends Page {
     super(pageName, options);
 
     this.apiService = api;
+    this.store = store;
+    this.events = events;
     this.createPageView();
+    this.subscribeToEvents();
 
     this.loadInitialData();
   }
@@ -58,6 +69,22 @@ export default class Winner extends Page {
     void this.loadWinners(this.currentPage);
   }
 
+  /**
+   * Reloads the table whenever winners or the names and colors of their cars change.
+   *
+   * @private
+   */
+  private subscribeToEvents(): void {
+    const reload = (): void => {
+      this.updateTable();
+    };
+
+    this.events.on('winnerSaved', reload);
+    this.events.on('carUpdated', reload);
+    this.events.on('carDeleted', reload);
+    this.events.on('changesSynced', reload);
+  }
+
   /**
    * Loads initial winner data when the component is initialized.
    * Intentionally does not await the result here.
@@ -82,6 +109,8 @@ export default class Winner extends Page {
     sort = this.currentSort,
     order = this.currentOrder
   ): Promise<void> {
+    const load = ++this.latestLoad;
+
     try {
       const { items, totalCount } = await this.apiService.getWinners(
         page,
@@ -90,12 +119,22 @@ export default class Winner extends Page {
         order
       );
 
-      this.winners = items;
+      if (load !== this.latestLoad) {
+        return;
+      }
+
       this.totalCount = totalCount;
       this.currentPage = page;
       this.maxPages = Math.ceil(this.totalCount / this.WINNERS_PER_PAGE);
-
-      void this.updateTableBody();
+      this.store.setState({
+        winners: items,
+        winnersTotal: totalCount,
+        winnersPage: page,
+        winnersSort: sort,
+        winnersOrder: order,
+      });
+
+      void this.updateTableBody(load);
       this.updateHeaderFields(this.totalCount, this.currentPage);
       this.pagination?.updatePaginationState(this.currentPage, this.totalCount);
     } catch {
@@ -112,6 +151,7 @@ export default class Winner extends Page {
     this.createHeader();
     this.createPageText(this.currentPage);
     this.createPagination();
+    this.createOrphanNotice();
     this.renderTable();
   }
 
@@ -138,9 +178,9 @@ export default class Winner extends Page {
    * Sorts table by `wins` and `time`
    *
    * @private
-   * @param {Sort} sortByField - The text of the sort field
+   * @param {WinnerSort} sortByField - The text of the sort field
    */
-  private handleSortChange(sortByField: Sort): void {
+  private handleSortChange(sortByField: WinnerSort): void {
     if (this.currentSort === sortByField) {
       this.currentOrder = this.currentOrder === 'ASC' ? 'DESC' : 'ASC';
     } else {
@@ -153,34 +193,101 @@ export default class Winner extends Page {
     void this.loadWinners(this.currentPage);
   }
 
+  /**
+   * Creates the hidden notice about winner records of deleted cars
+   * with a button that removes them.
+   *
+   * @private
+   */
+  private createOrphanNotice(): void {
+    this.orphanNotice = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.orphanNotice],
+    });
+    this.orphanNoticeText = new ElementCreator({
+      tag: 'p',
+      classNames: [styles.orphanNoticeText],
+    });
+
+    const cleanupButton = new Button({
+      text: 'Clean up',
+      classNames: [styles.orphanNoticeButton],
+      callback: (): void => {
+        void this.handleRemoveOrphans();
+      },
+    });
+
+    this.orphanNotice.addInnerElement(this.orphanNoticeText);
+    this.orphanNotice.addInnerElement(cleanupButton.getHTMLElement());
+    this.element.addInnerElement(this.orphanNotice);
+  }
+
+  /**
+   * Shows the orphan notice when the current page has winners without a car.
+   *
+   * @private
+   * @param {number} orphanCount - The number of winners whose car was deleted
+   */
+  private updateOrphanNotice(orphanCount: number): void {
+    if (!this.orphanNotice || !this.orphanNoticeText) return;
+
+    this.orphanNoticeText.setTextContent(
+      `${String(orphanCount)} winner record(s) belong to deleted cars.`
+    );
+    this.orphanNotice.getElement().style.display =
+      orphanCount > 0 ? 'flex' : 'none';
+  }
+
+  /**
+   * Removes winner records of deleted cars and reloads the table.
+   *
+   * @private
+   * @return {Promise<void>}
+   */
+  private async handleRemoveOrphans(): Promise<void> {
+    try {
+      await this.apiService.removeOrphanedWinners();
+    } catch {
+      throw new Error('Failed to remove orphaned winners');
+    }
+
+    await this.loadWinners(this.currentPage);
+  }
+
   /**
    * Clears and repopulates the table body with winner data for the current page.
+   * Car details of all winners are fetched in one batched lookup.
+   * The body is only replaced if no newer load started meanwhile,
+   * so overlapping reloads neither duplicate rows nor bring back old data.
    *
    * @private
+   * @param {number} load - The number of the load that renders the body
    * @return {Promise<void>}
    */
-  private async updateTableBody(): Promise<void> {
-    this.clearTableBody();
+  private async updateTableBody(load: number): Promise<void> {
+    const { winners } = this.store.getState();
+    const winnerIds = winners.map((winner) => winner.id);
+    const cars: CarDataFromApi[] =
+      await this.apiService.getCarsByIds(winnerIds);
 
-    const winnerIds: number[] = this.winners.map(
-      (winner: WinnerInformationFromApi) => winner.id
-    );
-    const carPromises: Promise<CarDataFromApi>[] = winnerIds.map((id) =>
-      this.apiService.getCar(id)
+    if (load !== this.latestLoad) {
+      return;
+    }
+
+    this.clearTableBody();
+    const carDataMap = new Map<number, CarDataFromApi>(
+      cars.map((car) => [car.id, car])
     );
-    const carResults: PromiseSettledResult<CarDataFromApi>[] =
-      await Promise.allSettled(carPromises);
-    const carDataMap = new Map<number, CarDataFromApi>();
 
-    for (const [index, result] of carResults.entries()) {
-      if (result.status === 'fulfilled') {
-        carDataMap.set(winnerIds[index], result.value);
-      }
-    }
+    const orphanCount = winners.filter(
+      (winner) => !carDataMap.has(winner.id)
+    ).length;
+
+    this.updateOrphanNotice(orphanCount);
 
     let count = (this.currentPage - 1) * this.WINNERS_PER_PAGE + 1;
 
-    for (const winner of this.winners) {
+    for (const winner of winners) {
       const carData = carDataMap.get(winner.id);
 
       if (carData) {
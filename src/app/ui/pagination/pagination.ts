@@ -13,6 +13,9 @@ export default class Pagination extends View {
   private prevButton: Button | undefined;
   private nextButton: Button | undefined;
   private callbacks: PaginationCallbacks;
+  private page = 1;
+  private totalPages = 1;
+  private isLocked = false;
 
   /**
    * Creates an instance of Pagination.
@@ -44,22 +47,36 @@ export default class Pagination extends View {
       throw new Error('Pagination button does not exist');
     }
 
+    this.page = page;
+    this.totalPages = totalPages;
+
     const previousButtonElement: HTMLElement = this.prevButton.getHTMLElement();
     const nextButtonElement: HTMLElement = this.nextButton.getHTMLElement();
 
-    if (page <= 1) {
+    if (this.isLocked || page <= 1) {
       previousButtonElement.setAttribute(this.DISABLED_STATE, '');
     } else {
       previousButtonElement.removeAttribute(this.DISABLED_STATE);
     }
 
-    if (page >= totalPages) {
+    if (this.isLocked || page >= totalPages) {
       nextButtonElement.setAttribute(this.DISABLED_STATE, '');
     } else {
       nextButtonElement.removeAttribute(this.DISABLED_STATE);
     }
   }
 
+  /**
+   * Locks both buttons while a race is starting or running,
+   * so the page cannot change under the cars.
+   *
+   * @param {boolean} locked - Whether the page may not change
+   */
+  public setLocked(locked: boolean): void {
+    this.isLocked = locked;
+    this.updatePaginationState(this.page, this.totalPages);
+  }
+
   /**
    * Initializes the pagination view by creating the control buttons.
    *
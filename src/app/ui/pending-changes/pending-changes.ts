@@ -0,0 +1,142 @@
+import styles from './pending-changes.module.scss';
+
+import type {
+  Creator,
+  MutationConflict,
+  PendingChangesCallbacks,
+  PendingChangesState,
+} from '../../types/interfaces';
+import ElementCreator from '../../utils/element-creator';
+import Button from '../button/button';
+import View from '../view';
+
+/**
+ * Shows the number of car changes waiting for the server
+ * and the changes that were dropped because of conflicts.
+ * Hidden while there is nothing to report.
+ *
+ * @export
+ * @class PendingChanges
+ * @extends {View}
+ */
+export default class PendingChanges extends View {
+  private callbacks: PendingChangesCallbacks;
+  private statusElement: ElementCreator | undefined;
+  private syncButton: Button | undefined;
+  private conflictsElement: ElementCreator | undefined;
+  private dismissButton: Button | undefined;
+
+  /**
+   * Creates an instance of PendingChanges.
+   *
+   * @param {PendingChangesCallbacks} callbacks - Callbacks provided by the parent component (App).
+   */
+  constructor(callbacks: PendingChangesCallbacks) {
+    const options: Creator = {
+      tag: 'div',
+      classNames: [styles.pendingChanges],
+    };
+
+    super(options);
+
+    this.callbacks = callbacks;
+    this.createView();
+  }
+
+  /**
+   * Renders the given state.
+   *
+   * @param {PendingChangesState} state - The pending changes state
+   */
+  public update(state: PendingChangesState): void {
+    const { pending, syncing, conflicts } = state;
+
+    this.statusElement?.setTextContent(
+      syncing
+        ? `Syncing ${String(pending)} change(s)…`
+        : `${String(pending)} change(s) waiting for the server`
+    );
+    this.toggle(this.statusElement, pending > 0);
+    this.toggle(this.syncButton, pending > 0 && !syncing);
+
+    this.renderConflicts(conflicts);
+    this.toggle(this.dismissButton, conflicts.length > 0);
+
+    this.getHTMLElement().style.display =
+      pending > 0 || conflicts.length > 0 ? 'flex' : 'none';
+  }
+
+  /**
+   * Creates the status text, the conflicts list and their buttons.
+   *
+   * @private
+   */
+  private createView(): void {
+    this.statusElement = new ElementCreator({
+      tag: 'span',
+      classNames: [styles.pendingChangesStatus],
+    });
+    this.syncButton = new Button({
+      text: 'Sync now',
+      classNames: [styles.pendingChangesButton],
+      callback: this.callbacks.onSync,
+    });
+    this.conflictsElement = new ElementCreator({
+      tag: 'ul',
+      classNames: [styles.pendingChangesConflicts],
+    });
+    this.dismissButton = new Button({
+      text: 'Dismiss',
+      classNames: [styles.pendingChangesButton],
+      callback: this.callbacks.onDismiss,
+    });
+
+    this.element.addInnerElement(this.statusElement);
+    this.element.addInnerElement(this.syncButton.getHTMLElement());
+    this.element.addInnerElement(this.conflictsElement);
+    this.element.addInnerElement(this.dismissButton.getHTMLElement());
+
+    this.update({ pending: 0, syncing: false, conflicts: [] });
+  }
+
+  /**
+   * Replaces the conflicts list.
+   *
+   * @private
+   * @param {MutationConflict[]} conflicts - The dropped changes
+   */
+  private renderConflicts(conflicts: MutationConflict[]): void {
+    if (!this.conflictsElement) return;
+
+    this.conflictsElement.getElement().replaceChildren();
+
+    for (const { mutation, reason } of conflicts) {
+      const item = new ElementCreator({
+        tag: 'li',
+        classNames: [],
+        textContent: `Discarded ${mutation.type} of car ${String(mutation.id)}: ${reason}`,
+      });
+
+      this.conflictsElement.addInnerElement(item);
+    }
+  }
+
+  /**
+   * Shows or hides a child element.
+   *
+   * @private
+   * @param {(ElementCreator | View | undefined)} view - The element to toggle
+   * @param {boolean} isVisible - Whether the element is shown
+   */
+  private toggle(
+    view: ElementCreator | View | undefined,
+    isVisible: boolean
+  ): void {
+    if (!view) return;
+
+    const element =
+      view instanceof View ? view.getHTMLElement() : view.getElement();
+
+    element.style.display = isVisible ? '' : 'none';
+  }
+}
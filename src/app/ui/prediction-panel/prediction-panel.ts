@@ -0,0 +1,176 @@
+import styles from './prediction-panel.module.scss';
+
+import type {
+  CarDataFromApi,
+  Creator,
+  Prediction,
+} from '../../types/interfaces';
+import ElementCreator from '../../utils/element-creator';
+import View from '../view';
+
+/**
+ * Panel of the prediction game: the car the user thinks will win the next
+ * race with its odds, the stake, and the wallet with the accuracy so far.
+ *
+ * @export
+ * @class PredictionPanel
+ * @extends {View}
+ */
+export default class PredictionPanel extends View {
+  private carSelect: HTMLSelectElement | undefined;
+  private stakeInput: HTMLInputElement | undefined;
+  private walletText: ElementCreator | undefined;
+  private outcomeText: ElementCreator | undefined;
+  private odds = new Map<number, number>();
+
+  /**
+   * Creates an instance of PredictionPanel.
+   *
+   */
+  constructor() {
+    const options: Creator = {
+      tag: 'div',
+      classNames: [styles.predictionPanel],
+    };
+
+    super(options);
+
+    this.createView();
+  }
+
+  /**
+   * Offers the cars of the next race with their odds.
+   * The picked car is kept if it is still on the track.
+   *
+   * @param {CarDataFromApi[]} cars - The cars on the track
+   * @param {Map<number, number>} odds - The decimal odds of each car by ID
+   */
+  public setCars(cars: CarDataFromApi[], odds: Map<number, number>): void {
+    if (!this.carSelect) return;
+
+    const picked = this.carSelect.value;
+
+    this.odds = odds;
+    this.carSelect.replaceChildren(
+      new Option('No prediction', ''),
+      ...cars.map(
+        (car) =>
+          new Option(
+            `${car.name} (${(odds.get(car.id) ?? 1).toFixed(2)})`,
+            String(car.id)
+          )
+      )
+    );
+    this.carSelect.value = cars.some((car) => String(car.id) === picked)
+      ? picked
+      : '';
+  }
+
+  /**
+   * Shows the balance of the wallet and the accuracy of the predictions.
+   *
+   * @param {number} balance - The coins in the wallet
+   * @param {(number | undefined)} accuracy - The share of correct predictions in percent
+   * @param {number} predictions - The number of scored predictions
+   */
+  public updateWallet(
+    balance: number,
+    accuracy: number | undefined,
+    predictions: number
+  ): void {
+    const accuracyText =
+      accuracy === undefined
+        ? 'no predictions yet'
+        : `accuracy ${String(accuracy)}% of ${String(predictions)}`;
+
+    this.stakeInput?.setAttribute('max', String(balance));
+    this.walletText?.setTextContent(
+      `Wallet: ${String(balance)} coins, ${accuracyText}`
+    );
+  }
+
+  /**
+   * Shows how the last prediction turned out.
+   *
+   * @param {string} text - The outcome of the prediction
+   */
+  public showOutcome(text: string): void {
+    this.outcomeText?.setTextContent(text);
+  }
+
+  /**
+   * Keeps the prediction from being changed while a race is on the track.
+   *
+   * @param {boolean} locked - Whether a race is on the track
+   */
+  public setLocked(locked: boolean): void {
+    this.carSelect?.toggleAttribute('disabled', locked);
+    this.stakeInput?.toggleAttribute('disabled', locked);
+  }
+
+  /**
+   * Returns the current prediction.
+   *
+   * @return {(Prediction | undefined)} The picked car with stake and odds,
+   * or `undefined` if no car is picked.
+   */
+  public getPrediction(): Prediction | undefined {
+    const carId = Number(this.carSelect?.value);
+    const odds = this.odds.get(carId);
+    const stake = Math.floor(this.stakeInput?.valueAsNumber ?? 0);
+
+    return odds === undefined
+      ? undefined
+      : { carId, stake: Math.max(stake || 0, 0), odds };
+  }
+
+  /**
+   * Creates the car select, the stake input, the wallet and the outcome.
+   *
+   * @private
+   */
+  private createView(): void {
+    const select = new ElementCreator({
+      tag: 'select',
+      classNames: [styles.predictionPanelInput],
+    });
+    const stake = new ElementCreator({
+      tag: 'input',
+      classNames: [styles.predictionPanelInput, styles.predictionPanelStake],
+      attributes: { type: 'number', min: '0', step: '1', value: '0' },
+    });
+    const pickLabel = new ElementCreator({
+      tag: 'label',
+      classNames: [],
+      textContent: 'Predicted winner',
+    });
+    const stakeLabel = new ElementCreator({
+      tag: 'label',
+      classNames: [],
+      textContent: 'Stake',
+    });
+    const selectElement = select.getElement();
+    const stakeElement = stake.getElement();
+
+    if (selectElement instanceof HTMLSelectElement) {
+      this.carSelect = selectElement;
+    }
+
+    if (stakeElement instanceof HTMLInputElement) {
+      this.stakeInput = stakeElement;
+    }
+
+    this.walletText = new ElementCreator({ tag: 'span', classNames: [] });
+    this.outcomeText = new ElementCreator({
+      tag: 'span',
+      classNames: [styles.predictionPanelOutcome],
+    });
+    pickLabel.addInnerElement(select);
+    stakeLabel.addInnerElement(stake);
+
+    this.element.addInnerElement(pickLabel);
+    this.element.addInnerElement(stakeLabel);
+    this.element.addInnerElement(this.walletText);
+    this.element.addInnerElement(this.outcomeText);
+  }
+}
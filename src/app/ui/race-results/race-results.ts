@@ -0,0 +1,314 @@
+import styles from './race-results.module.scss';
+
+import type {
+  Creator,
+  FastestLap,
+  RaceReplay,
+  RaceResultEntry,
+  RaceResultsCallbacks,
+} from '../../types/interfaces';
+import { downloadReplay } from '../../race/race-replay';
+import { RACE_SPEEDS } from '../../race/race-clock';
+import { getFastestLap, hasLapTimes } from '../../race/race-results';
+import ElementCreator from '../../utils/element-creator';
+import { toSeconds } from '../../utils/utilities';
+import Button from '../button/button';
+import View from '../view';
+
+/**
+ * Panel with the complete result of a race: positions, finish times,
+ * gaps to the leader and the cars that did not finish, with the controls
+ * to replay or export the recorded race. Races of several laps also show
+ * the lap times of every car and the fastest lap.
+ * Hidden until a race is over.
+ *
+ * @export
+ * @class RaceResults
+ * @extends {View}
+ */
+export default class RaceResults extends View {
+  private titleElement: ElementCreator | undefined;
+  private tBody: ElementCreator | undefined;
+  private headRow: ElementCreator | undefined;
+  private fastestLapElement: ElementCreator | undefined;
+  private headers = ['Pos', 'Car', 'Time', 'Gap'];
+  private callbacks: RaceResultsCallbacks;
+  private replay: RaceReplay | undefined;
+  private replayControls: ElementCreator | undefined;
+  private speedSelect: HTMLSelectElement | undefined;
+
+  /**
+   * Creates an instance of RaceResults.
+   *
+   * @param {RaceResultsCallbacks} callbacks - Callbacks provided by the parent component (Garage).
+   */
+  constructor(callbacks: RaceResultsCallbacks) {
+    const options: Creator = {
+      tag: 'section',
+      classNames: [styles.raceResults],
+    };
+
+    super(options);
+
+    this.callbacks = callbacks;
+    this.createView();
+    this.hide();
+  }
+
+  /**
+   * Renders the result and shows the panel.
+   *
+   * @param {string} title - The heading of the result
+   * @param {RaceResultEntry[]} entries - The result entries in finishing order
+   * @param {RaceReplay} [replay] - The recorded race, if it can be replayed
+   */
+  public show(
+    title: string,
+    entries: RaceResultEntry[],
+    replay?: RaceReplay
+  ): void {
+    const fastestLap = hasLapTimes(entries)
+      ? getFastestLap(entries)
+      : undefined;
+
+    this.replay = replay;
+    this.titleElement?.setTextContent(title);
+    this.replayControls?.getElement().toggleAttribute('hidden', !replay);
+    this.renderHeaders(fastestLap !== undefined);
+
+    while (this.tBody?.getElement().firstElementChild) {
+      this.tBody.getElement().firstElementChild?.remove();
+    }
+
+    for (const entry of entries) {
+      this.tBody?.addInnerElement(this.createRow(entry, fastestLap));
+    }
+
+    this.fastestLapElement?.setTextContent(
+      fastestLap
+        ? `Fastest lap: ${fastestLap.car.name}, lap ${String(fastestLap.lap)}, ${String(toSeconds(fastestLap.time))}s`
+        : ''
+    );
+
+    this.getHTMLElement().style.display = 'flex';
+  }
+
+  /**
+   * Hides the panel.
+   *
+   */
+  public hide(): void {
+    this.getHTMLElement().style.display = 'none';
+  }
+
+  /**
+   * Creates the title, the results table and the close button.
+   *
+   * @private
+   */
+  private createView(): void {
+    this.titleElement = new ElementCreator({
+      tag: 'h3',
+      classNames: [styles.raceResultsTitle],
+    });
+
+    const table = new ElementCreator({
+      tag: 'table',
+      classNames: [styles.raceResultsTable],
+    });
+    this.headRow = new ElementCreator({ tag: 'tr', classNames: [] });
+    this.tBody = new ElementCreator({ tag: 'tbody', classNames: [] });
+    this.fastestLapElement = new ElementCreator({
+      tag: 'p',
+      classNames: [styles.raceResultsFastestLap],
+    });
+    table.addInnerElement(this.headRow);
+    table.addInnerElement(this.tBody);
+
+    const closeButton = new Button({
+      text: 'Close',
+      classNames: [styles.raceResultsButton],
+      callback: (): void => {
+        this.hide();
+      },
+    });
+
+    this.element.addInnerElement(this.titleElement);
+    this.element.addInnerElement(table);
+    this.element.addInnerElement(this.fastestLapElement);
+    this.element.addInnerElement(this.createReplayControls());
+    this.element.addInnerElement(closeButton.getHTMLElement());
+  }
+
+  /**
+   * Renders the column headers, with the lap times column for races of several laps.
+   *
+   * @private
+   * @param {boolean} showLaps - Whether the lap times are shown
+   */
+  private renderHeaders(showLaps: boolean): void {
+    const headers = showLaps ? [...this.headers, 'Laps'] : this.headers;
+
+    this.headRow?.getElement().replaceChildren(
+      ...headers.map((header) =>
+        new ElementCreator({
+          tag: 'th',
+          classNames: [styles.raceResultsCell],
+          textContent: header,
+        }).getElement()
+      )
+    );
+  }
+
+  /**
+   * Creates the speed select and the replay and export buttons.
+   *
+   * @private
+   * @return {ElementCreator} The replay controls container.
+   */
+  private createReplayControls(): ElementCreator {
+    this.replayControls = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.raceResultsReplay],
+    });
+
+    const replayButton = new Button({
+      text: 'Replay',
+      classNames: [styles.raceResultsButton],
+      callback: (): void => {
+        if (this.replay) {
+          this.callbacks.onReplay(
+            this.replay,
+            Number(this.speedSelect?.value ?? 1)
+          );
+        }
+      },
+    });
+    const exportButton = new Button({
+      text: 'Export',
+      classNames: [styles.raceResultsButton],
+      callback: (): void => {
+        if (this.replay) {
+          downloadReplay(this.replay);
+        }
+      },
+    });
+
+    this.replayControls.addInnerElement(this.createSpeedSelect());
+    this.replayControls.addInnerElement(replayButton.getHTMLElement());
+    this.replayControls.addInnerElement(exportButton.getHTMLElement());
+
+    return this.replayControls;
+  }
+
+  /**
+   * Creates the select of the replay speed, real time by default.
+   *
+   * @private
+   * @return {ElementCreator} The speed select.
+   */
+  private createSpeedSelect(): ElementCreator {
+    const select = new ElementCreator({
+      tag: 'select',
+      classNames: [styles.raceResultsSelect],
+    });
+    const element = select.getElement();
+
+    if (element instanceof HTMLSelectElement) {
+      this.speedSelect = element;
+      element.replaceChildren(
+        ...RACE_SPEEDS.map(
+          (speed) => new Option(`${String(speed)}x`, String(speed))
+        )
+      );
+      element.value = '1';
+    }
+
+    return select;
+  }
+
+  /**
+   * Creates the row of one car. Cars that did not finish show
+   * the share of the track they covered before the breakdown,
+   * and cars of a dead heat are marked with `=`.
+   *
+   * @private
+   * @param {RaceResultEntry} entry - The result of the car
+   * @param {FastestLap} [fastestLap] - The fastest lap of a race of several laps
+   * @return {ElementCreator} The table row.
+   */
+  private createRow(
+    entry: RaceResultEntry,
+    fastestLap?: FastestLap
+  ): ElementCreator {
+    const { car, position, tied, time, gap, distance } = entry;
+    const row = new ElementCreator({ tag: 'tr', classNames: [] });
+    const cells =
+      time === undefined
+        ? [
+            'DNF',
+            car.name,
+            `${String(Math.round(distance * 100))}% covered`,
+            '',
+          ]
+        : [
+            `${tied ? '=' : ''}${String(position)}`,
+            car.name,
+            `${String(toSeconds(time))}s`,
+            gap ? `+${String(toSeconds(gap))}s` : '',
+          ];
+
+    if (time === undefined) {
+      row.setCSSClasses([styles.raceResultsDnf]);
+    }
+
+    for (const text of cells) {
+      row.addInnerElement(
+        new ElementCreator({
+          tag: 'td',
+          classNames: [styles.raceResultsCell],
+          textContent: text,
+        })
+      );
+    }
+
+    if (fastestLap) {
+      row.addInnerElement(this.createLapsCell(entry, fastestLap));
+    }
+
+    return row;
+  }
+
+  /**
+   * Creates the cell with the lap times of one car, the fastest lap of the race highlighted.
+   *
+   * @private
+   * @param {RaceResultEntry} entry - The result of the car
+   * @param {FastestLap} fastestLap - The fastest lap of the race
+   * @return {ElementCreator} The table cell.
+   */
+  private createLapsCell(
+    entry: RaceResultEntry,
+    fastestLap: FastestLap
+  ): ElementCreator {
+    const cell = new ElementCreator({
+      tag: 'td',
+      classNames: [styles.raceResultsCell, styles.raceResultsLaps],
+    });
+
+    for (const [index, time] of entry.laps.entries()) {
+      const isFastest =
+        entry.car.id === fastestLap.car.id && index + 1 === fastestLap.lap;
+
+      cell.addInnerElement(
+        new ElementCreator({
+          tag: 'span',
+          classNames: isFastest ? [styles.raceResultsFastest] : [],
+          textContent: `${String(toSeconds(time))}s`,
+        })
+      );
+    }
+
+    return cell;
+  }
+}
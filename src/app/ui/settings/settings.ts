@@ -0,0 +1,118 @@
+import styles from './settings.module.scss';
+
+import type {
+  BackendType,
+  Creator,
+  SettingsCallbacks,
+} from '../../types/interfaces';
+import ElementCreator from '../../utils/element-creator';
+import View from '../view';
+
+interface BackendOption {
+  value: BackendType;
+  text: string;
+}
+
+/**
+ * Represents the application settings: currently the backend toggle.
+ *
+ * @export
+ * @class Settings
+ * @extends {View}
+ */
+export default class Settings extends View {
+  private callbacks: SettingsCallbacks;
+  private backendOptions: BackendOption[] = [
+    { value: 'server', text: 'Server' },
+    { value: 'local', text: 'Local (IndexedDB)' },
+  ];
+
+  /**
+   * Creates an instance of Settings.
+   *
+   * @param {BackendType} backendType - The backend currently in use.
+   * @param {SettingsCallbacks} callbacks - Callbacks provided by the parent component (App).
+   */
+  constructor(backendType: BackendType, callbacks: SettingsCallbacks) {
+    const options: Creator = {
+      tag: 'div',
+      classNames: [styles.settings],
+    };
+
+    super(options);
+
+    this.callbacks = callbacks;
+    this.createView(backendType);
+  }
+
+  /**
+   * Creates the backend label and select element.
+   *
+   * @private
+   * @param {BackendType} backendType - The backend currently in use.
+   */
+  private createView(backendType: BackendType): void {
+    const labelOptions: Creator = {
+      tag: 'label',
+      classNames: [],
+      textContent: 'Backend',
+      attributes: {
+        for: 'backend-select',
+      },
+    };
+
+    const selectOptions: Creator = {
+      tag: 'select',
+      classNames: [styles.settingsSelect],
+      attributes: {
+        id: 'backend-select',
+      },
+    };
+
+    const label: ElementCreator = new ElementCreator(labelOptions);
+    const select: ElementCreator = new ElementCreator(selectOptions);
+
+    for (const backend of this.backendOptions) {
+      const option: ElementCreator = new ElementCreator({
+        tag: 'option',
+        classNames: [],
+        textContent: backend.text,
+        attributes: { value: backend.value },
+      });
+
+      if (backend.value === backendType) {
+        option.setAttributes({ selected: '' });
+      }
+
+      select.addInnerElement(option);
+    }
+
+    select.addEventListener('change', (event: Event) => {
+      this.handleChange(event);
+    });
+
+    this.element.addInnerElement(label);
+    this.element.addInnerElement(select);
+  }
+
+  /**
+   * Passes the selected backend to the parent component.
+   *
+   * @private
+   * @param {Event} event - The change event of the select element.
+   */
+  private handleChange(event: Event): void {
+    if (!(event.target instanceof HTMLSelectElement)) {
+      return;
+    }
+
+    const { value } = event.target;
+    const selected = this.backendOptions.find(
+      (backend) => backend.value === value
+    );
+
+    if (selected) {
+      this.callbacks.onBackendChange(selected.value);
+    }
+  }
+}
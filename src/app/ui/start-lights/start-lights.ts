@@ -0,0 +1,114 @@
+import styles from './start-lights.module.scss';
+
+import type { Creator } from '../../types/interfaces';
+import { COUNTDOWN_LIGHTS } from '../../race/race-start';
+import ElementCreator from '../../utils/element-creator';
+import View from '../view';
+
+/**
+ * The start lights overlaid on the track during the countdown:
+ * one red light more for every count, all green at "go".
+ * Hidden while no race is starting.
+ *
+ * @export
+ * @class StartLights
+ * @extends {View}
+ */
+export default class StartLights extends View {
+  private lights: ElementCreator[] = [];
+  private textElement: ElementCreator | undefined;
+
+  /**
+   * Creates an instance of StartLights.
+   *
+   */
+  constructor() {
+    const options: Creator = {
+      tag: 'div',
+      classNames: [styles.startLights],
+      attributes: { hidden: '' },
+    };
+
+    super(options);
+
+    this.createView();
+  }
+
+  /**
+   * Shows a step of the countdown.
+   *
+   * @param {number} count - The count shown, from the number of lights down to 1
+   */
+  public count(count: number): void {
+    for (const [index, light] of this.lights.entries()) {
+      const { classList } = light.getElement();
+
+      classList.toggle(
+        styles.startLightsLightRed,
+        index <= COUNTDOWN_LIGHTS - count
+      );
+      classList.remove(styles.startLightsLightGreen);
+    }
+
+    this.textElement?.setTextContent(String(count));
+    this.getHTMLElement().hidden = false;
+  }
+
+  /**
+   * Shows the start signal, with a note such as the cars that jumped the start.
+   *
+   * @param {string} [note=''] - The text shown below the signal
+   */
+  public go(note = ''): void {
+    for (const light of this.lights) {
+      const { classList } = light.getElement();
+
+      classList.remove(styles.startLightsLightRed);
+      classList.add(styles.startLightsLightGreen);
+    }
+
+    this.textElement?.setTextContent(note ? `GO! ${note}` : 'GO!');
+    this.getHTMLElement().hidden = false;
+  }
+
+  /**
+   * Hides the lights.
+   *
+   */
+  public hide(): void {
+    this.getHTMLElement().hidden = true;
+  }
+
+  /**
+   * Creates the row of lights and the text below it.
+   *
+   * @private
+   */
+  private createView(): void {
+    const row = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.startLightsRow],
+    });
+
+    this.lights = Array.from(
+      { length: COUNTDOWN_LIGHTS },
+      () =>
+        new ElementCreator({
+          tag: 'span',
+          classNames: [styles.startLightsLight],
+        })
+    );
+
+    for (const light of this.lights) {
+      row.addInnerElement(light);
+    }
+
+    this.textElement = new ElementCreator({
+      tag: 'p',
+      classNames: [styles.startLightsText],
+    });
+
+    this.element.addInnerElement(row);
+    this.element.addInnerElement(this.textElement);
+  }
+}
@@ -5,9 +5,9 @@ import type {
   Creator,
   FilterCallbacks,
   FullWinnerDetails,
+  SortOrder,
 } from '../../types/interfaces';
 import ElementCreator from '../../utils/element-creator';
-import type { Order } from '../pages/winner/winner';
 import View from '../view';
 
 export default class Table extends View {
@@ -47,16 +47,16 @@ export default class Table extends View {
       },
     },
   ];
-  private currentOrder: Order;
+  private currentOrder: SortOrder;
   private headerCells: ElementCreator[] = [];
 
   /**
    * Creates an instance of Table.
    *
    * @param {FilterCallbacks} callbacks - An object containing callback functions for sorting/filtering actions initiated by table headers.
-   * @param {Order} order - The initial sort order to be displayed.
+   * @param {SortOrder} order - The initial sort order to be displayed.
    */
-  constructor(callbacks: FilterCallbacks, order: Order) {
+  constructor(callbacks: FilterCallbacks, order: SortOrder) {
     const options: Creator = {
       tag: 'table',
       classNames: [styles.table],
@@ -106,9 +106,9 @@ export default class Table extends View {
   /**
    * Updates the internal state representing the current sort order.
    *
-   * @param {Order} order
+   * @param {SortOrder} order
    */
-  public updateOrder(order: Order): void {
+  public updateOrder(order: SortOrder): void {
     this.currentOrder = order;
   }
 
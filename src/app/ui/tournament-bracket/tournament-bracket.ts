@@ -0,0 +1,191 @@
+import styles from './tournament-bracket.module.scss';
+
+import type {
+  Creator,
+  TournamentBracketCallbacks,
+  TournamentChampion,
+  TournamentHeat,
+  TournamentState,
+} from '../../types/interfaces';
+import { getHeatWinner } from '../../race/tournament';
+import ElementCreator from '../../utils/element-creator';
+import { toSeconds } from '../../utils/utilities';
+import Button from '../button/button';
+import View from '../view';
+
+/**
+ * Renders the tournament bracket round by round with the results
+ * of every heat, and the controls to race the next heat.
+ * Hidden while no tournament is running.
+ *
+ * @export
+ * @class TournamentBracket
+ * @extends {View}
+ */
+export default class TournamentBracket extends View {
+  private callbacks: TournamentBracketCallbacks;
+  private roundsElement: ElementCreator | undefined;
+  private championElement: ElementCreator | undefined;
+  private runButton: Button | undefined;
+  private DISABLED_STATE = 'disabled';
+
+  /**
+   * Creates an instance of TournamentBracket.
+   *
+   * @param {TournamentBracketCallbacks} callbacks - Callbacks provided by the parent component (Garage).
+   */
+  constructor(callbacks: TournamentBracketCallbacks) {
+    const options: Creator = {
+      tag: 'section',
+      classNames: [styles.tournamentBracket],
+    };
+
+    super(options);
+
+    this.callbacks = callbacks;
+    this.createView();
+  }
+
+  /**
+   * Renders the bracket.
+   *
+   * @param {(TournamentState | undefined)} state - The bracket, or `undefined` to hide it
+   * @param {(TournamentChampion | undefined)} champion - The winner of the final, if raced
+   */
+  public update(
+    state: TournamentState | undefined,
+    champion: TournamentChampion | undefined
+  ): void {
+    this.getHTMLElement().style.display = state ? 'flex' : 'none';
+
+    while (this.roundsElement?.getElement().firstElementChild) {
+      this.roundsElement.getElement().firstElementChild?.remove();
+    }
+
+    for (const [index, heats] of (state?.rounds ?? []).entries()) {
+      const isFinal = index === (state?.rounds.length ?? 0) - 1 && champion;
+      const title = isFinal ? 'Final' : `Round ${String(index + 1)}`;
+
+      this.roundsElement?.addInnerElement(this.createRound(title, heats));
+    }
+
+    this.championElement?.setTextContent(
+      champion ? `Champion: ${champion.car.name}` : ''
+    );
+    this.runButton?.getHTMLElement().toggleAttribute('hidden', !!champion);
+  }
+
+  /**
+   * Locks the run button while a heat is racing.
+   *
+   * @param {boolean} busy - Whether a heat is racing
+   */
+  public setBusy(busy: boolean): void {
+    this.runButton?.getHTMLElement().toggleAttribute(this.DISABLED_STATE, busy);
+  }
+
+  /**
+   * Creates the rounds container, the champion text and the buttons.
+   *
+   * @private
+   */
+  private createView(): void {
+    const title = new ElementCreator({
+      tag: 'h3',
+      classNames: [styles.tournamentBracketTitle],
+      textContent: 'Tournament',
+    });
+
+    this.roundsElement = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.tournamentBracketRounds],
+    });
+    this.championElement = new ElementCreator({
+      tag: 'p',
+      classNames: [styles.tournamentBracketChampion],
+    });
+    this.runButton = new Button({
+      text: 'Run next heat',
+      classNames: [styles.tournamentBracketButton],
+      callback: (): void => void this.callbacks.onRunHeat(),
+    });
+
+    const abandonButton = new Button({
+      text: 'Close tournament',
+      classNames: [styles.tournamentBracketButton],
+      callback: this.callbacks.onAbandon,
+    });
+
+    this.element.addInnerElement(title);
+    this.element.addInnerElement(this.roundsElement);
+    this.element.addInnerElement(this.championElement);
+    this.element.addInnerElement(this.runButton.getHTMLElement());
+    this.element.addInnerElement(abandonButton.getHTMLElement());
+  }
+
+  /**
+   * Creates the column of one round.
+   *
+   * @private
+   * @param {string} title - The name of the round
+   * @param {TournamentHeat[]} heats - The heats of the round
+   * @return {ElementCreator} The round column.
+   */
+  private createRound(title: string, heats: TournamentHeat[]): ElementCreator {
+    const round = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.tournamentBracketRound],
+    });
+
+    round.addInnerElement(
+      new ElementCreator({
+        tag: 'h4',
+        classNames: [styles.tournamentBracketRoundTitle],
+        textContent: title,
+      })
+    );
+
+    for (const heat of heats) {
+      round.addInnerElement(this.createHeat(heat));
+    }
+
+    return round;
+  }
+
+  /**
+   * Creates the list of cars of a heat with their times.
+   * The winner is highlighted; cars that did not finish are marked DNF.
+   *
+   * @private
+   * @param {TournamentHeat} heat - The heat
+   * @return {ElementCreator} The heat list.
+   */
+  private createHeat(heat: TournamentHeat): ElementCreator {
+    const list = new ElementCreator({
+      tag: 'ol',
+      classNames: [styles.tournamentBracketHeat],
+    });
+    const winner = getHeatWinner(heat);
+    const isRaced = heat.finishes.length > 0;
+
+    for (const car of heat.cars) {
+      const finish = heat.finishes.find(({ id }) => id === car.id);
+      const result = finish ? `${String(toSeconds(finish.time))}s` : 'DNF';
+      const classNames: string[] = [];
+
+      if (winner?.car.id === car.id) {
+        classNames.push(styles.tournamentBracketWinner);
+      }
+
+      list.addInnerElement(
+        new ElementCreator({
+          tag: 'li',
+          classNames,
+          textContent: isRaced ? `${car.name} — ${result}` : car.name,
+        })
+      );
+    }
+
+    return list;
+  }
+}
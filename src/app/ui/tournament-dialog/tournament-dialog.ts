@@ -0,0 +1,226 @@
+import styles from './tournament-dialog.module.scss';
+
+import type {
+  CarDataFromApi,
+  Creator,
+  TournamentDialogCallbacks,
+} from '../../types/interfaces';
+import ElementCreator from '../../utils/element-creator';
+import Button from '../button/button';
+import View from '../view';
+
+/**
+ * Modal dialog for picking the participants of a tournament
+ * from the whole garage.
+ *
+ * @export
+ * @class TournamentDialog
+ * @extends {View}
+ */
+export default class TournamentDialog extends View {
+  private readonly MIN_PARTICIPANTS = 2;
+  private callbacks: TournamentDialogCallbacks;
+  private carsList: ElementCreator | undefined;
+  private carInputs = new Map<HTMLInputElement, CarDataFromApi>();
+  private selectAllInput: HTMLInputElement | undefined;
+  private errorElement: ElementCreator | undefined;
+
+  /**
+   * Creates an instance of TournamentDialog.
+   *
+   * @param {TournamentDialogCallbacks} callbacks - Callbacks provided by the parent component (Garage).
+   */
+  constructor(callbacks: TournamentDialogCallbacks) {
+    const options: Creator = {
+      tag: 'dialog',
+      classNames: [styles.tournamentDialog],
+    };
+
+    super(options);
+
+    this.callbacks = callbacks;
+    this.createView();
+  }
+
+  /**
+   * Lists the cars, all selected, and opens the dialog as a modal.
+   *
+   * @param {CarDataFromApi[]} cars - All cars of the garage
+   */
+  public open(cars: CarDataFromApi[]): void {
+    const dialog = this.getHTMLElement();
+
+    this.renderCars(cars);
+    this.errorElement?.setTextContent('');
+
+    if (this.selectAllInput) {
+      this.selectAllInput.checked = true;
+    }
+
+    if (dialog instanceof HTMLDialogElement) {
+      dialog.showModal();
+    }
+  }
+
+  /**
+   * Closes the dialog.
+   *
+   */
+  public close(): void {
+    const dialog = this.getHTMLElement();
+
+    if (dialog instanceof HTMLDialogElement) {
+      dialog.close();
+    }
+  }
+
+  /**
+   * Creates the dialog content: the select all checkbox, the cars list,
+   * error text and buttons.
+   *
+   * @private
+   */
+  private createView(): void {
+    const title = new ElementCreator({
+      tag: 'h2',
+      classNames: [styles.tournamentDialogTitle],
+      textContent: 'Tournament',
+    });
+
+    this.carsList = new ElementCreator({
+      tag: 'fieldset',
+      classNames: [styles.tournamentDialogCars],
+    });
+    this.errorElement = new ElementCreator({
+      tag: 'p',
+      classNames: [styles.tournamentDialogError],
+    });
+
+    this.element.addInnerElement(title);
+    this.element.addInnerElement(this.createSelectAllField());
+    this.element.addInnerElement(this.carsList);
+    this.element.addInnerElement(this.errorElement);
+    this.element.addInnerElement(this.createButtons());
+  }
+
+  /**
+   * Creates the checkbox that selects or clears all cars.
+   *
+   * @private
+   * @return {ElementCreator} The labelled checkbox.
+   */
+  private createSelectAllField(): ElementCreator {
+    const label = new ElementCreator({
+      tag: 'label',
+      classNames: [styles.tournamentDialogCar],
+      textContent: 'Whole garage',
+    });
+    const checkbox = new ElementCreator({
+      tag: 'input',
+      classNames: [],
+      attributes: { type: 'checkbox', checked: '' },
+    });
+    const element = checkbox.getElement();
+
+    if (element instanceof HTMLInputElement) {
+      this.selectAllInput = element;
+      element.addEventListener('change', () => {
+        for (const input of this.carInputs.keys()) {
+          input.checked = element.checked;
+        }
+      });
+    }
+
+    label.getElement().prepend(element);
+
+    return label;
+  }
+
+  /**
+   * Renders a checkbox for every car, all checked.
+   *
+   * @private
+   * @param {CarDataFromApi[]} cars - All cars of the garage
+   */
+  private renderCars(cars: CarDataFromApi[]): void {
+    this.carInputs.clear();
+
+    while (this.carsList?.getElement().firstElementChild) {
+      this.carsList.getElement().firstElementChild?.remove();
+    }
+
+    for (const car of cars) {
+      const label = new ElementCreator({
+        tag: 'label',
+        classNames: [styles.tournamentDialogCar],
+        textContent: car.name,
+      });
+      const checkbox = new ElementCreator({
+        tag: 'input',
+        classNames: [],
+        attributes: { type: 'checkbox', checked: '' },
+      });
+      const element = checkbox.getElement();
+
+      if (element instanceof HTMLInputElement) {
+        this.carInputs.set(element, car);
+      }
+
+      label.getElement().prepend(element);
+      this.carsList?.addInnerElement(label);
+    }
+  }
+
+  /**
+   * Creates the Start and Cancel buttons.
+   *
+   * @private
+   * @return {ElementCreator} The buttons container.
+   */
+  private createButtons(): ElementCreator {
+    const container = new ElementCreator({
+      tag: 'div',
+      classNames: [styles.tournamentDialogButtons],
+    });
+    const startButton = new Button({
+      text: 'Start',
+      classNames: [styles.tournamentDialogButton],
+      callback: (): void => {
+        this.handleSubmit();
+      },
+    });
+    const cancelButton = new Button({
+      text: 'Cancel',
+      classNames: [styles.tournamentDialogButton],
+      callback: (): void => {
+        this.close();
+      },
+    });
+
+    container.addInnerElement(startButton.getHTMLElement());
+    container.addInnerElement(cancelButton.getHTMLElement());
+
+    return container;
+  }
+
+  /**
+   * Checks the number of participants and passes them to the parent component.
+   *
+   * @private
+   */
+  private handleSubmit(): void {
+    const cars = [...this.carInputs]
+      .filter(([input]) => input.checked)
+      .map(([, car]) => car);
+
+    if (cars.length < this.MIN_PARTICIPANTS) {
+      this.errorElement?.setTextContent(
+        `Choose at least ${String(this.MIN_PARTICIPANTS)} cars`
+      );
+      return;
+    }
+
+    this.close();
+    this.callbacks.onSubmit(cars);
+  }
+}
@@ -0,0 +1,57 @@
+import type {
+  BulkOptions,
+  BulkProgress,
+  BulkResult,
+} from '../types/interfaces';
+
+/**
+ * Runs a task for every item with at most `concurrency` tasks in flight.
+ * Failed items are collected instead of stopping the run, so they can be retried.
+ *
+ * @template T
+ * @param {T[]} items - The items to process
+ * @param {(item: T) => Promise<unknown>} task - The operation for a single item
+ * @param {BulkOptions} options - The concurrency limit, progress callback and abort signal
+ * @return {Promise<BulkResult<T>>} - A promise that resolves with the succeeded and failed items
+ */
+export const runBulk = async <T>(
+  items: T[],
+  task: (item: T) => Promise<unknown>,
+  options: BulkOptions
+): Promise<BulkResult<T>> => {
+  const { concurrency, onProgress, signal } = options;
+  const result: BulkResult<T> = { succeeded: [], failed: [] };
+  const progress: BulkProgress = {
+    total: items.length,
+    completed: 0,
+    failed: 0,
+  };
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      signal?.throwIfAborted();
+
+      const item = items[nextIndex];
+      nextIndex += 1;
+
+      try {
+        await task(item);
+        result.succeeded.push(item);
+      } catch (error) {
+        result.failed.push({ item, error });
+        progress.failed += 1;
+      }
+
+      progress.completed += 1;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+
+  onProgress?.({ ...progress });
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return result;
+};
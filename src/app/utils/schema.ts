@@ -0,0 +1,197 @@
+import type {
+  NumberRules,
+  Schema,
+  SchemaIssue,
+  StringRules,
+} from '../types/interfaces';
+
+const ROOT_PATH = '$';
+
+/**
+ * Builds a schema from a validation function.
+ *
+ * @template T
+ * @param {(value: unknown, path: string) => SchemaIssue | undefined} validate - Returns the first issue found, if any
+ * @return {Schema<T>} - The schema
+ */
+const createSchema = <T>(
+  validate: (value: unknown, path: string) => SchemaIssue | undefined
+): Schema<T> => ({
+  validate: (value: unknown, path = ROOT_PATH): SchemaIssue | undefined =>
+    validate(value, path),
+  is: (value: unknown): value is T => validate(value, ROOT_PATH) === undefined,
+});
+
+/**
+ * Describes the type of a value for error messages.
+ *
+ * @param {unknown} value - The value to describe
+ * @return {string} - `null`, `array` or the `typeof` result
+ */
+const describe = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+/**
+ * Creates a schema for finite numbers.
+ *
+ * @param {NumberRules} [rules={}] - Integer and range constraints
+ * @return {Schema<number>} - The number schema
+ */
+export const number = (rules: NumberRules = {}): Schema<number> =>
+  createSchema<number>((value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { path, message: `expected number, got ${describe(value)}` };
+    }
+
+    if (rules.integer && !Number.isInteger(value)) {
+      return { path, message: `expected integer, got ${String(value)}` };
+    }
+
+    if (rules.min !== undefined && value < rules.min) {
+      return {
+        path,
+        message: `expected >= ${String(rules.min)}, got ${String(value)}`,
+      };
+    }
+
+    if (rules.exclusiveMin !== undefined && value <= rules.exclusiveMin) {
+      return {
+        path,
+        message: `expected > ${String(rules.exclusiveMin)}, got ${String(value)}`,
+      };
+    }
+
+    return undefined;
+  });
+
+/**
+ * Creates a schema for strings.
+ *
+ * @param {StringRules} [rules={}] - An optional pattern and its description for error messages
+ * @return {Schema<string>} - The string schema
+ */
+export const string = (rules: StringRules = {}): Schema<string> =>
+  createSchema<string>((value, path) => {
+    if (typeof value !== 'string') {
+      return { path, message: `expected string, got ${describe(value)}` };
+    }
+
+    if (rules.pattern && !rules.pattern.test(value)) {
+      const expected = rules.description ?? `match ${String(rules.pattern)}`;
+
+      return { path, message: `expected ${expected}, got "${value}"` };
+    }
+
+    return undefined;
+  });
+
+/**
+ * Creates a schema for booleans.
+ *
+ * @return {Schema<boolean>} - The boolean schema
+ */
+export const boolean = (): Schema<boolean> =>
+  createSchema<boolean>((value, path) =>
+    typeof value === 'boolean'
+      ? undefined
+      : { path, message: `expected boolean, got ${describe(value)}` }
+  );
+
+/**
+ * Creates a schema for objects with the given required properties.
+ * Additional properties are allowed.
+ *
+ * @template T
+ * @param {{ [K in keyof T]: Schema<T[K]> }} shape - The schema of each property
+ * @return {Schema<T>} - The object schema
+ */
+export const object = <T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> =>
+  createSchema<T>((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { path, message: `expected object, got ${describe(value)}` };
+    }
+
+    for (const [key, schema] of Object.entries<Schema<unknown>>(shape)) {
+      const propertyPath = `${path}.${key}`;
+
+      if (!(key in value)) {
+        return { path: propertyPath, message: 'is required' };
+      }
+
+      const issue = schema.validate(
+        Object.getOwnPropertyDescriptor(value, key)?.value,
+        propertyPath
+      );
+
+      if (issue) {
+        return issue;
+      }
+    }
+
+    return undefined;
+  });
+
+/**
+ * Creates a schema for arrays whose items all match the item schema.
+ *
+ * @template T
+ * @param {Schema<T>} item - The schema of each item
+ * @return {Schema<T[]>} - The array schema
+ */
+export const array = <T>(item: Schema<T>): Schema<T[]> =>
+  createSchema<T[]>((value, path) => {
+    if (!Array.isArray(value)) {
+      return { path, message: `expected array, got ${describe(value)}` };
+    }
+
+    for (const [index, element] of value.entries()) {
+      const issue = item.validate(element, `${path}[${String(index)}]`);
+
+      if (issue) {
+        return issue;
+      }
+    }
+
+    return undefined;
+  });
+
+/**
+ * Creates a schema for one exact string, such as the type of an event.
+ *
+ * @template T
+ * @param {T} expected - The only allowed value
+ * @return {Schema<T>} - The literal schema
+ */
+export const literal = <T extends string>(expected: T): Schema<T> =>
+  createSchema<T>((value, path) =>
+    value === expected
+      ? undefined
+      : {
+          path,
+          message: `expected "${expected}", got ${typeof value === 'string' ? `"${value}"` : describe(value)}`,
+        }
+  );
+
+/**
+ * Creates a schema for values that match either of two schemas.
+ * When neither matches, the issue of the first schema is reported.
+ *
+ * @template A, B
+ * @param {Schema<A>} first - The first allowed shape
+ * @param {Schema<B>} second - The second allowed shape
+ * @return {Schema<A | B>} - The union schema
+ */
+export const either = <A, B>(
+  first: Schema<A>,
+  second: Schema<B>
+): Schema<A | B> =>
+  createSchema<A | B>((value, path) => {
+    const issue = first.validate(value, path);
+
+    return issue && second.validate(value, path) ? issue : undefined;
+  });
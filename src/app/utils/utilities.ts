@@ -1,13 +1,18 @@
+import type { ColorPalette } from '../types/interfaces';
+
 /**
  * Creates a random car name by selecting a random brand
  * and a random model from the provided data.
  *
  * @param {Record<string, string[]>} data - An object where keys are car brands (string)
  * and values are arrays of models
+ * @param {string[]} [brands=Object.keys(data)] - The brands to choose from
  * @return {string} - A randomly generated car name in the format "Brand Model"
  */
-export const getRandomCarName = (data: Record<string, string[]>): string => {
-  const brands: string[] = Object.keys(data);
+export const getRandomCarName = (
+  data: Record<string, string[]>,
+  brands: string[] = Object.keys(data)
+): string => {
   const brandIndex: number = Math.floor(Math.random() * brands.length);
   const randomBrandName: string = brands[brandIndex];
 
@@ -35,3 +40,162 @@ export const getRandomHexColor = (): string => {
 
   return `#${hexColorString}`;
 };
+
+/**
+ * Expands a three-digit HEX color like `#f00` to its six-digit form,
+ * the only form a color input accepts. Other values are returned unchanged.
+ *
+ * @param {string} color - The HEX color
+ * @return {string} - The six-digit HEX color
+ */
+export const toLongHexColor = (color: string): string =>
+  /^#[\da-f]{3}$/i.test(color)
+    ? `#${[...color.slice(1)].map((digit) => digit.repeat(2)).join('')}`
+    : color;
+
+/**
+ * Returns a random integer between `min` and `max`, both inclusive.
+ *
+ * @param {number} min - The lower bound
+ * @param {number} max - The upper bound
+ * @return {number} - A random integer
+ */
+const getRandomInteger = (min: number, max: number): number =>
+  min + Math.floor(Math.random() * (max - min + 1));
+
+/**
+ * Converts an HSL color to a HEX color string.
+ *
+ * @param {number} hue - The hue in degrees, 0-360
+ * @param {number} saturation - The saturation in percent, 0-100
+ * @param {number} lightness - The lightness in percent, 0-100
+ * @return {string} - The HEX color
+ */
+const hslToHex = (
+  hue: number,
+  saturation: number,
+  lightness: number
+): string => {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const amplitude = s * Math.min(l, 1 - l);
+
+  const channel = (offset: number): string => {
+    const k = (offset + hue / 30) % 12;
+    const value = l - amplitude * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, '0');
+  };
+
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+/**
+ * Generates a random HEX color from the given palette.
+ *
+ * @param {ColorPalette} palette - `any` for fully random colors, otherwise a hue and tone range
+ * @return {string} - A random HEX color
+ */
+export const getRandomPaletteColor = (palette: ColorPalette): string => {
+  switch (palette) {
+    case 'warm': {
+      return hslToHex(
+        (getRandomInteger(-30, 60) + 360) % 360,
+        getRandomInteger(65, 100),
+        getRandomInteger(40, 60)
+      );
+    }
+    case 'cool': {
+      return hslToHex(
+        getRandomInteger(160, 260),
+        getRandomInteger(55, 100),
+        getRandomInteger(35, 60)
+      );
+    }
+    case 'pastel': {
+      return hslToHex(
+        getRandomInteger(0, 359),
+        getRandomInteger(60, 90),
+        getRandomInteger(75, 88)
+      );
+    }
+    case 'grayscale': {
+      return hslToHex(0, 0, getRandomInteger(10, 90));
+    }
+    default: {
+      return getRandomHexColor();
+    }
+  }
+};
+
+/**
+ * Rejects with the abort reason as soon as the signal is aborted,
+ * otherwise settles together with the given promise.
+ *
+ * @template T
+ * @param {Promise<T>} promise - The operation to wait for
+ * @param {AbortSignal} [signal] - The signal that cancels waiting
+ * @return {Promise<T>} - A promise that settles with the operation or rejects on abort
+ */
+export const withAbort = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal === undefined) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => {
+      reject(signal.reason);
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    void promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+};
+
+/**
+ * Resolves after the given delay unless the signal is aborted first.
+ * An abort clears the timer, and either way the abort listener is removed.
+ *
+ * @param {number} ms - The delay in milliseconds
+ * @param {AbortSignal} [signal] - The signal that cancels waiting
+ * @return {Promise<void>} - A promise that resolves after the delay or rejects on abort
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Converts a race time to seconds rounded to hundredths,
+ * the precision shown to the user and stored in the winners table.
+ *
+ * @param {number} ms - The time in milliseconds
+ * @return {number} - The time in seconds
+ */
+export const toSeconds = (ms: number): number => Number((ms / 1000).toFixed(2));
@@ -0,0 +1,10 @@
+import FakeServer from './app/api/fake-server/fake-server';
+import { startNodeServer } from './app/api/fake-server/node-server';
+
+const port = Number(process.env.PORT ?? 3000);
+
+startNodeServer(new FakeServer(), port);
+
+process.stdout.write(
+  `Fake async-race server is running at http://127.0.0.1:${String(port)}\n`
+);